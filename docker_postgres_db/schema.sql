@@ -36,5 +36,99 @@ CREATE INDEX IF NOT EXISTS idx_transactions_wallet ON transactions(wallet_addres
 CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
 CREATE INDEX IF NOT EXISTS idx_transactions_created_at ON transactions(created_at DESC);
 
+CREATE TABLE IF NOT EXISTS positions (
+    id SERIAL PRIMARY KEY,
+    token_mint VARCHAR(44) NOT NULL,
+    wallet_address VARCHAR(44) NOT NULL,
+
+    -- Entry
+    entry_price DECIMAL(25, 15) NOT NULL,
+    size_tokens DECIMAL(25, 0) NOT NULL,
+    sol_amount DECIMAL(18, 9) NOT NULL,
+    buy_tx_hash VARCHAR(88),
+
+    -- Guard state (restored on restart)
+    peak_price DECIMAL(25, 15),
+    guard_state JSONB NOT NULL DEFAULT '{}',
+    partial_exits JSONB NOT NULL DEFAULT '[]',
+
+    -- Lifecycle
+    status VARCHAR(10) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'EXITING', 'CLOSED', 'DETACHED')),
+    exit_reason VARCHAR(32),
+    opened_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    closed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_positions_status ON positions(status);
+CREATE INDEX IF NOT EXISTS idx_positions_mint ON positions(token_mint);
+
+CREATE TABLE IF NOT EXISTS limit_orders (
+    id SERIAL PRIMARY KEY,
+    token_mint VARCHAR(44) NOT NULL,
+    side VARCHAR(4) NOT NULL CHECK (side IN ('BUY', 'SELL')),
+    limit_price DECIMAL(25, 15) NOT NULL,
+    sol_amount DECIMAL(18, 9),
+    token_amount DECIMAL(25, 0),
+    slippage_bps INTEGER,
+
+    -- Lifecycle
+    status VARCHAR(10) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'FILLING', 'FILLED', 'CANCELLED', 'EXPIRED', 'FAILED')),
+    expires_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    -- Fill
+    filled_at TIMESTAMP,
+    fill_price DECIMAL(25, 15),
+    fill_tx_hash VARCHAR(88),
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_limit_orders_status ON limit_orders(status);
+
+-- Simulated fills from paper-trading mode; never mixed into transactions/positions
+CREATE TABLE IF NOT EXISTS paper_trades (
+    id SERIAL PRIMARY KEY,
+    tx_hash VARCHAR(88) UNIQUE NOT NULL,
+    token_mint VARCHAR(44) NOT NULL,
+    side VARCHAR(4) NOT NULL CHECK (side IN ('BUY', 'SELL')),
+    sol_amount DECIMAL(18, 9) NOT NULL,
+    token_amount DECIMAL(25, 0) NOT NULL,
+    price_per_token DECIMAL(25, 15),
+    price_impact_percent DECIMAL(8, 4),
+    slippage_bps INTEGER,
+    fill_source VARCHAR(10) NOT NULL CHECK (fill_source IN ('reserves', 'quote')),
+    context VARCHAR(32),
+
+    -- Virtual ledger after this fill
+    sol_balance_after DECIMAL(18, 9) NOT NULL,
+    token_balance_after DECIMAL(25, 0) NOT NULL,
+
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_trades_mint ON paper_trades(token_mint);
+
+-- Supervisor price/reserve ticks (RECORD_TICKS=true), replayed by the backtester
+CREATE TABLE IF NOT EXISTS market_ticks (
+    id BIGSERIAL PRIMARY KEY,
+    token_mint VARCHAR(44) NOT NULL,
+    ts TIMESTAMP NOT NULL,
+    price DECIMAL(25, 15) NOT NULL,
+    sol_reserve DECIMAL(18, 9),
+    token_reserve DECIMAL(25, 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_ticks_mint_ts ON market_ticks(token_mint, ts);
+
+-- Manual resets of the loss-streak cooldown (only round-trips closed after the latest reset count)
+CREATE TABLE IF NOT EXISTS cooldown_resets (
+    id SERIAL PRIMARY KEY,
+    reset_by VARCHAR(64) NOT NULL,
+    note TEXT,
+    reset_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Exit
 \q
\ No newline at end of file
@@ -0,0 +1,219 @@
+import fs from "fs";
+import path from "path";
+import { PolicyStore } from "../helpers/policyStore.js";
+import { deepMerge } from "../helpers/merge.js";
+import { migratePolicy } from "../helpers/policyMigrations.js";
+import { assertValidPolicy } from "../helpers/policyValidator.js";
+import { POLICY_SCHEMA_PATH } from "../helpers/policyClient.js";
+import { constantProductSwap } from "../paper/engine.js";
+import { PartialSell, PositionGuard } from "../trading/positionSupervisor.js";
+import type { SellReason } from "../trading/sellWithJupiterJito.js";
+import type { PositionEntity } from "../database/entities/Position.js";
+import type { TradingPolicy } from "../types/policy.js";
+import type { Tick } from "./series.js";
+
+export type BacktestExitReason = SellReason | "endOfData";
+
+export interface BacktestTrade {
+  mint: string;
+  entryAt: string;
+  exitAt: string;
+  holdSec: number;
+  entryPrice: number;
+  exitPrice: number;
+  solIn: number;
+  solOut: number;
+  pnlSol: number;
+  pnlPercent: number;
+  exitReason: BacktestExitReason;
+  partials: number;
+  ticks: number;
+}
+
+export interface BacktestSummary {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRatePercent: number;
+  pnlSol: number;
+  avgPnlPercent: number;
+  maxDrawdownSol: number;
+  maxDrawdownPercent: number;
+  exitReasons: Record<string, number>;
+}
+
+export interface BacktestReport {
+  policy: string;
+  fingerprint: string;
+  trades: BacktestTrade[];
+  summary: BacktestSummary;
+}
+
+/**
+ * Merges a policy variant (full or partial, any supported schemaVersion) over `base` like a local
+ * override layer, validates it and makes it the live snapshot every guard reads through loadConfig().
+ */
+export function usePolicyFile(file: string, base: TradingPolicy): string {
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const variant = migratePolicy(raw, path.basename(file)).policy;
+  const merged = deepMerge(base, variant);
+  assertValidPolicy(merged, POLICY_SCHEMA_PATH);
+  PolicyStore.use(merged);
+  return PolicyStore.getFingerprint();
+}
+
+// Constant-product fill against the tick's reserves; price-only ticks fill at the quoted price
+function buyTokens(t: Tick, sol: number): number {
+  return t.solReserve > 0 && t.tokenReserve > 0
+    ? constantProductSwap(t.solReserve, t.tokenReserve, sol).out
+    : sol / t.price;
+}
+
+function sellSol(t: Tick, tokens: number): number {
+  return t.solReserve > 0 && t.tokenReserve > 0
+    ? constantProductSwap(t.tokenReserve, t.solReserve, tokens).out
+    : tokens * t.price;
+}
+
+/**
+ * Buys `sol` at the first tick and replays the rest through a PositionGuard on the ticks' own clock.
+ * Partials and the exit fill against the current tick; whatever is still held at the end closes as endOfData.
+ */
+export async function replaySeries(
+  mint: string,
+  ticks: Tick[],
+  sol: number
+): Promise<BacktestTrade | null> {
+  if (!ticks.length) return null;
+  const first = ticks[0];
+  let tick = first;
+  const pos: PositionEntity = {
+    id: 0,
+    token_mint: mint,
+    wallet_address: "backtest",
+    entry_price: first.price,
+    size_tokens: buyTokens(first, sol),
+    sol_amount: sol,
+    buy_tx_hash: "backtest",
+    guard_state: {
+      autoScalp: { entry: first.price, lpUsd: first.liquidityUsd ?? null },
+    },
+    partial_exits: [],
+    status: "OPEN",
+    opened_at: new Date(first.ts),
+    updated_at: new Date(first.ts),
+  };
+
+  const partial: PartialSell = async (p, tokens, reason, price, outcome) => {
+    if (tokens <= 0) return true;
+    outcome.realizedSol += sellSol(tick, tokens);
+    p.size_tokens = Math.max(0, p.size_tokens - tokens);
+    p.partial_exits.push({
+      at: new Date(tick.ts).toISOString(),
+      reason,
+      tokens,
+      price,
+      tx_hash: "backtest",
+    });
+    return true;
+  };
+  const guard = new PositionGuard(
+    0,
+    pos,
+    { getLivePrice: async () => tick.price },
+    partial
+  );
+
+  let exitReason: BacktestExitReason = "endOfData";
+  let seen = 0;
+  for (const t of ticks) {
+    tick = t;
+    seen++;
+    if (t.poolDeltaPercent != null)
+      guard.axe.pushPoolDelta(t.poolDeltaPercent, t.ts);
+    else if (t.solReserve > 0) guard.onReserve(t.solReserve, t.ts);
+    const reason = await guard.onTick(t.price, t.ts);
+    if (reason) {
+      exitReason = reason;
+      break;
+    }
+  }
+
+  const solOut =
+    guard.outcome.realizedSol +
+    (pos.size_tokens > 0 ? sellSol(tick, pos.size_tokens) : 0);
+  return {
+    mint,
+    entryAt: new Date(first.ts).toISOString(),
+    exitAt: new Date(tick.ts).toISOString(),
+    holdSec: (tick.ts - first.ts) / 1000,
+    entryPrice: first.price,
+    exitPrice: tick.price,
+    solIn: sol,
+    solOut,
+    pnlSol: solOut - sol,
+    pnlPercent: ((solOut - sol) / sol) * 100,
+    exitReason,
+    partials: pos.partial_exits.length,
+    ticks: seen,
+  };
+}
+
+/**
+ * Win rate counts trades with positive PnL. Drawdown runs over cumulative PnL in exit order,
+ * on an account holding one `sol` stake (percent is of the running peak of that account).
+ */
+export function summarize(
+  trades: BacktestTrade[],
+  sol: number
+): BacktestSummary {
+  const ordered = [...trades].sort((a, b) => a.exitAt.localeCompare(b.exitAt));
+  let equity = sol;
+  let peak = sol;
+  let maxDrawdownSol = 0;
+  let maxDrawdownPercent = 0;
+  for (const t of ordered) {
+    equity += t.pnlSol;
+    peak = Math.max(peak, equity);
+    if (peak - equity > maxDrawdownSol) {
+      maxDrawdownSol = peak - equity;
+      maxDrawdownPercent = ((peak - equity) / peak) * 100;
+    }
+  }
+  const wins = trades.filter((t) => t.pnlSol > 0).length;
+  const exitReasons: Record<string, number> = {};
+  for (const t of trades)
+    exitReasons[t.exitReason] = (exitReasons[t.exitReason] ?? 0) + 1;
+  return {
+    trades: trades.length,
+    wins,
+    losses: trades.length - wins,
+    winRatePercent: trades.length ? (wins / trades.length) * 100 : 0,
+    pnlSol: trades.reduce((a, t) => a + t.pnlSol, 0),
+    avgPnlPercent: trades.length
+      ? trades.reduce((a, t) => a + t.pnlPercent, 0) / trades.length
+      : 0,
+    maxDrawdownSol,
+    maxDrawdownPercent,
+    exitReasons,
+  };
+}
+
+/** Replays every series under the current policy snapshot. */
+export async function runBacktest(
+  series: Map<string, Tick[]>,
+  sol: number,
+  policy: string
+): Promise<BacktestReport> {
+  const trades: BacktestTrade[] = [];
+  for (const [mint, ticks] of series) {
+    const trade = await replaySeries(mint, ticks, sol);
+    if (trade) trades.push(trade);
+  }
+  return {
+    policy,
+    fingerprint: PolicyStore.getFingerprint(),
+    trades,
+    summary: summarize(trades, sol),
+  };
+}
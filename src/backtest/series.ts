@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { marketTickRepo } from "../database/repositories/MarketTickRepository.js";
+
+export interface Tick {
+  mint: string;
+  ts: number; // ms since epoch
+  price: number; // SOL per token
+  solReserve?: number;
+  tokenReserve?: number;
+  poolDeltaPercent?: number; // used as-is; otherwise derived from solReserve changes
+  liquidityUsd?: number;
+}
+
+// Accepted column/key spellings (CSV headers and JSONL keys)
+const FIELDS: Record<keyof Tick, string[]> = {
+  mint: ["mint", "token_mint", "tokenMint"],
+  ts: ["ts", "timestamp", "time"],
+  price: ["price", "price_sol", "priceSol"],
+  solReserve: ["sol_reserve", "solReserve"],
+  tokenReserve: ["token_reserve", "tokenReserve"],
+  poolDeltaPercent: ["pool_delta_percent", "poolDeltaPercent", "pool_delta"],
+  liquidityUsd: ["liquidity_usd", "liquidityUsd", "lp_usd"],
+};
+
+function pick(row: Record<string, any>, key: keyof Tick) {
+  for (const k of FIELDS[key]) {
+    if (row[k] !== undefined && row[k] !== "") return row[k];
+  }
+  return undefined;
+}
+
+// Epoch seconds, epoch ms or an ISO string
+function parseTs(v: any): number {
+  const n = Number(v);
+  if (Number.isFinite(n)) return n < 1e12 ? n * 1000 : n;
+  const t = Date.parse(v);
+  if (Number.isNaN(t))
+    throw new Error(`Unparseable timestamp ${JSON.stringify(v)}`);
+  return t;
+}
+
+function optionalNumber(v: any): number | undefined {
+  return v === undefined || v === null ? undefined : Number(v);
+}
+
+function toTick(
+  row: Record<string, any>,
+  defaultMint: string,
+  where: string
+): Tick {
+  const price = Number(pick(row, "price"));
+  const ts = pick(row, "ts");
+  if (!(price > 0) || ts === undefined) {
+    throw new Error(`${where}: every tick needs ts and a positive price`);
+  }
+  return {
+    mint: String(pick(row, "mint") ?? defaultMint),
+    ts: parseTs(ts),
+    price,
+    solReserve: optionalNumber(pick(row, "solReserve")),
+    tokenReserve: optionalNumber(pick(row, "tokenReserve")),
+    poolDeltaPercent: optionalNumber(pick(row, "poolDeltaPercent")),
+    liquidityUsd: optionalNumber(pick(row, "liquidityUsd")),
+  };
+}
+
+/** Loads a .csv (header row) or .jsonl/.ndjson tick file; rows without a mint column use the file name. */
+export function loadTickFile(file: string): Tick[] {
+  const text = fs.readFileSync(file, "utf-8");
+  const defaultMint = path.basename(file).replace(/\.[^.]+$/, "");
+  const lines = text
+    .split(/\r?\n/)
+    .filter((l) => l.trim() && !l.startsWith("#"));
+
+  if (/\.csv$/i.test(file)) {
+    const [header, ...rows] = lines;
+    const cols = header.split(",").map((c) => c.trim());
+    return rows.map((line, i) => {
+      const cells = line.split(",");
+      const row = Object.fromEntries(cols.map((c, j) => [c, cells[j]?.trim()]));
+      return toTick(row, defaultMint, `${file}:${i + 2}`);
+    });
+  }
+  return lines.map((line, i) =>
+    toTick(JSON.parse(line), defaultMint, `${file}:${i + 1}`)
+  );
+}
+
+/** Ticks recorded by the supervisor (RECORD_TICKS=true) for one mint. */
+export async function loadDbTicks(
+  mint: string,
+  from?: Date,
+  to?: Date
+): Promise<Tick[]> {
+  const rows = await marketTickRepo.getSeries(mint, from, to);
+  return rows.map((r) => ({
+    mint: r.token_mint,
+    ts: new Date(r.ts).getTime(),
+    price: r.price,
+    solReserve: r.sol_reserve,
+    tokenReserve: r.token_reserve,
+  }));
+}
+
+/** One time-ordered series per mint. */
+export function groupByMint(ticks: Tick[]): Map<string, Tick[]> {
+  const series = new Map<string, Tick[]>();
+  for (const t of ticks) {
+    if (!series.has(t.mint)) series.set(t.mint, []);
+    series.get(t.mint).push(t);
+  }
+  for (const xs of series.values()) xs.sort((a, b) => a.ts - b.ts);
+  return series;
+}
@@ -2,15 +2,81 @@ import "dotenv/config";
 import http from "http";
 import fs from "fs";
 import path from "path";
-import { jupiter_buy, jupiter_sell } from "../jupiter/adapter.js";
+import crypto from "crypto";
+import {
+  jupiter_buy,
+  jupiter_sell,
+  jupiter_sell_quote,
+} from "../jupiter/adapter.js";
 import { jito_buy } from "../jito/buy.js";
 import { Notifications } from "../notifications/bus.js";
 import { isDevBlacklisted } from "../safety/blacklist.js";
-import { maxBuyForLiquidityUSD } from "../safety/liquidity.js";
+import { sizePosition } from "../safety/positionSizing.js";
+import { plannedStopDistancePercent } from "../trading/stopLoss.js";
+import {
+  describeSlippage,
+  resolveSlippageBps,
+} from "../trading/slippageOracle.js";
+import {
+  TwapOptions,
+  TwapSlice,
+  cancelTwapJob,
+  getTwapJob,
+  listTwapJobs,
+  startTwapSell,
+} from "../trading/twapSell.js";
+import { PolicyStore } from "../helpers/policyStore.js";
+import { PolicyValidationError } from "../helpers/policyValidator.js";
+import { loadConfig } from "../helpers/superConfig.js";
 import { Keypair, Connection, PublicKey } from "@solana/web3.js";
 import bs58 from "bs58";
 import { transactionRepo } from "../database/repositories/TransactionRepository.js";
+import { positionRepo } from "../database/repositories/PositionRepository.js";
 import { OnChainData } from "../database/entities/Transaction.js";
+import { PositionEntity } from "../database/entities/Position.js";
+import { describeLadder } from "../trading/takeProfitLadder.js";
+import { livePrice, solReserves } from "../integration/marketFeed.js";
+import {
+  isPaperMode,
+  paperBalances,
+  paperPoolReserve,
+  paperSellQuote,
+  paperSolBalance,
+  paperTag,
+  paperTokenBalance,
+  paper_buy,
+  paper_sell,
+  recentPaperTrades,
+  seedPaperPool,
+} from "../paper/engine.js";
+import {
+  CooldownActiveError,
+  assertTradingAllowed,
+  getCooldownStatus,
+  resetCooldown,
+} from "../safety/cooldown.js";
+import {
+  LimitOrderWatcher,
+  cancelLimitOrder,
+  placeLimitOrder,
+} from "../jupiter/limit_order.js";
+import { limitOrderRepo } from "../database/repositories/LimitOrderRepository.js";
+import {
+  LimitOrderSide,
+  LimitOrderStatus,
+} from "../database/entities/LimitOrder.js";
+
+// Recorded on the transaction and echoed back when a buy names no stop_loss (percent)
+const DEFAULT_STOP_LOSS_PERCENT = -20;
+
+interface OrderRequest {
+  mint: string;
+  side: LimitOrderSide;
+  price: number; // SOL per token
+  amount: number; // SOL for BUY, tokens for SELL
+  slippage?: number; // percent
+  expires_in_sec?: number;
+}
 
 interface ApiResponse {
   success: boolean;
@@ -34,6 +100,7 @@ interface TradeRequest {
   priority_fee?: number;
   priority?: "normal" | "high";
   onChain: OnChainData;
+  paper?: boolean;
 }
 
 interface WalletRequest {
@@ -82,12 +149,15 @@ class Logger {
     amount: number,
     txHash?: string,
     confirmed?: boolean,
-    error?: string
+    error?: string,
+    details?: string
   ) {
     const status = error ? "FAILED" : "SUCCESS";
     const entry = `${action} ${status} token=${mint} amount=${amount} tx=${
       txHash || "N/A"
-    } confirmed=${confirmed || false}${error ? ` ERROR=${error}` : ""}`;
+    } confirmed=${confirmed || false}${details ? ` ${details}` : ""}${
+      error ? ` ERROR=${error}` : ""
+    }`;
     this.writeToFile(this.tradeLogFile, entry);
     console.log(`📝 Trade logged: ${entry}`);
   }
@@ -335,15 +405,6 @@ class SuperBotAPI {
     }
   }
 
-  private calculateMaxBuyFromLiquidity(liquidityUSD: number): number {
-    // Conservative liquidity-based position sizing
-    if (liquidityUSD < 1000) return 0.05; // Very small pools
-    if (liquidityUSD < 5000) return 0.1; // Small pools
-    if (liquidityUSD < 20000) return 0.5; // Medium pools
-    if (liquidityUSD < 100000) return 1.0; // Large pools
-    return 2.0; // Very large pools
-  }
-
   private calculatePriceImpact(
     solReserve: number,
     tokenReserve: number,
@@ -407,27 +468,34 @@ class SuperBotAPI {
   async executeBuy(
     mint: string,
     solAmount: number,
-    slippageBps?: number,
+    slippagePercent?: number,
     stopLoss?: number,
     takeProfit?: number,
     priorityFee?: number,
     priority?: "normal" | "high",
-    onChain?: OnChainData
+    onChain?: OnChainData,
+    paper?: boolean
   ): Promise<ApiResponse> {
     let txHash: string | undefined;
     let walletPublicKey: string | undefined;
     let calculatedPriceImpact = 0;
+    const isPaper = isPaperMode(paper);
 
-    // Apply default values
-    const finalStopLoss = stopLoss ?? -20;
+    // Apply default values. The stored/displayed stop keeps its -20% default; sizing without an
+    // explicit stop uses the guard's planned stop distance (risk.stopLoss.percentEarly) instead
+    const finalStopLoss = stopLoss ?? DEFAULT_STOP_LOSS_PERCENT;
+    const sizingStopPercent = stopLoss ?? -plannedStopDistancePercent();
     const finalTakeProfit = takeProfit ?? 50;
     const finalPriorityFee = priorityFee ?? 0.00001;
-    const finalSlippage = Math.floor(slippageBps * 100) ?? 150;
 
     try {
-      console.log(`🛒 BUY REQUEST: ${solAmount} SOL for ${mint}`);
       console.log(
-        `⚙️ Trading params: Stop Loss: ${finalStopLoss}%, Take Profit: ${finalTakeProfit}%, Priority Fee: ${finalPriorityFee} SOL, Slippage: ${finalSlippage}%`
+        `🛒 ${paperTag(isPaper)}BUY REQUEST: ${solAmount} SOL for ${mint}`
+      );
+      console.log(
+        `⚙️ Trading params: Stop Loss: ${finalStopLoss}%, Take Profit: ${finalTakeProfit}%, Priority Fee: ${finalPriorityFee} SOL, Slippage: ${
+          slippagePercent != null ? `${slippagePercent}%` : "auto"
+        }`
       );
 
       // Log received on-chain data
@@ -446,28 +514,46 @@ class SuperBotAPI {
         }
       }
 
+      // Loss-streak circuit breaker (paper fills never reach the transactions it reads)
+      try {
+        if (!isPaper) await assertTradingAllowed("executeBuy");
+      } catch (error) {
+        if (!(error instanceof CooldownActiveError)) throw error;
+        this.logger.logTrade(
+          "BUY",
+          mint,
+          solAmount,
+          undefined,
+          false,
+          error.message
+        );
+        return {
+          success: false,
+          error: error.message,
+          data: { cooldown: error.status },
+        };
+      }
+
       // Validate wallet
-      if (!this.currentWallet) {
+      if (!this.currentWallet && !isPaper) {
         const error = "No wallet configured. Set wallet first.";
         this.logger.logTrade("BUY", mint, solAmount, undefined, false, error);
         return { success: false, error };
       }
 
       // Get wallet public key
-      const keypair = Keypair.fromSecretKey(bs58.decode(this.currentWallet));
-      walletPublicKey = keypair.publicKey.toString();
+      if (!isPaper) {
+        const keypair = Keypair.fromSecretKey(bs58.decode(this.currentWallet));
+        walletPublicKey = keypair.publicKey.toString();
+      }
 
-      // Check wallet balance
+      // Check wallet balance (the virtual ledger in paper mode)
       console.log(`💰 Checking wallet balance...`);
-      const walletBalance = await this.getWalletSOLBalance();
+      const walletBalance = isPaper
+        ? await paperSolBalance()
+        : await this.getWalletSOLBalance();
       console.log(`   Available SOL: ${walletBalance}`);
 
-      if (walletBalance < solAmount) {
-        const error = `Insufficient balance. Have ${walletBalance} SOL, need ${solAmount} SOL`;
-        this.logger.logTrade("BUY", mint, solAmount, undefined, false, error);
-        return { success: false, error };
-      }
-
       // Validate mint and amount
       if (!mint || mint.length < 32) {
         const error = "Invalid mint address";
@@ -481,8 +567,30 @@ class SuperBotAPI {
         return { success: false, error };
       }
 
+      // Risk-based position sizing (perTradeRiskPercent, stop distance, liquidity band, wallet balance);
+      // a request above the balance is sized down rather than refused
+      const sizing = sizePosition({
+        requestedSol: solAmount,
+        equitySol: walletBalance,
+        stopDistancePercent: sizingStopPercent,
+        liquidityUsd: onChain?.liquidityUSD,
+      });
+      const finalAmount = sizing.sol;
+      console.log(`📐 Position size: ${sizing.explanation}`);
+
+      if (finalAmount <= 0) {
+        const error = `Position size is 0: ${sizing.explanation}`;
+        this.logger.logTrade("BUY", mint, solAmount, undefined, false, error);
+        return { success: false, error, data: { sizing } };
+      }
+
+      if (walletBalance < finalAmount) {
+        const error = `Insufficient balance. Have ${walletBalance} SOL, need ${finalAmount} SOL`;
+        this.logger.logTrade("BUY", mint, finalAmount, undefined, false, error);
+        return { success: false, error, data: { sizing } };
+      }
+
       // Use on-chain data for safety checks
-      let finalAmount = solAmount;
 
       if (onChain) {
         // Check if pool exists
@@ -492,20 +600,6 @@ class SuperBotAPI {
           return { success: false, error };
         }
 
-        // Apply liquidity-based position sizing
-        if (onChain.liquidityUSD > 0) {
-          const maxAllowed = this.calculateMaxBuyFromLiquidity(
-            onChain.liquidityUSD
-          );
-          finalAmount = Math.min(solAmount, maxAllowed);
-
-          if (finalAmount < solAmount) {
-            console.log(
-              `⚠️ Amount reduced from ${solAmount} to ${finalAmount} SOL due to liquidity limits`
-            );
-          }
-        }
-
         // Calculate price impact if we have reserve data
         if (
           onChain.solReserve &&
@@ -556,9 +650,22 @@ class SuperBotAPI {
         }
       }
 
+      // Slippage: explicit request (percent) or the adaptive oracle. The oracle's samples are SOL per
+      // token from the guards and watchers; currentPriceUSD would mix units into its volatility window
+      const slippage = resolveSlippageBps(mint, {
+        requestedBps: slippagePercent != null ? slippagePercent * 100 : null,
+        impactPercent: calculatedPriceImpact,
+      });
+      const finalSlippage = slippage.bps;
+      console.log(`🎚️ Slippage: ${describeSlippage(slippage)}`);
+
       // Route to appropriate trading method
       let result;
-      if (priority === "high") {
+      if (isPaper) {
+        console.log(`📝 Paper mode: simulated fill`);
+        seedPaperPool(mint, onChain?.solReserve, onChain?.tokenReserve);
+        result = await paper_buy(mint, finalAmount, finalSlippage, "api");
+      } else if (priority === "high") {
         const isDevnet = this.rpcUrl.includes("devnet");
 
         if (isDevnet) {
@@ -595,7 +702,7 @@ class SuperBotAPI {
 
       // Check transaction status with retry logic
       let txStatus: TxStatus | null = null;
-      if (txHash && txHash !== "TXID_BUY_STUB") {
+      if (txHash && txHash !== "TXID_BUY_STUB" && !isPaper) {
         txStatus = await this.checkTxStatus(txHash);
 
         let retry: number = 1;
@@ -621,19 +728,26 @@ class SuperBotAPI {
         mint,
         finalAmount,
         txHash,
-        txStatus?.confirmed
+        txStatus?.confirmed,
+        undefined,
+        `slippage=${describeSlippage(slippage)}${isPaper ? " paper=true" : ""}`
       );
 
       Notifications.emit({
         type: "buy",
         level: "success",
-        title: `BUY ${mint}`,
+        title: `${paperTag(isPaper)}BUY ${mint}`,
         body: `${finalAmount} SOL`,
         link: result.txid,
       });
 
-      // 💾 Save to database ONLY if transaction is confirmed
-      if (txStatus?.confirmed && txHash && txHash !== "TXID_BUY_STUB") {
+      // 💾 Save to database ONLY if transaction is confirmed (paper fills go to paper_trades)
+      if (
+        txStatus?.confirmed &&
+        txHash &&
+        txHash !== "TXID_BUY_STUB" &&
+        !isPaper
+      ) {
         try {
           console.log(`💾 Saving successful buy transaction to database...`);
 
@@ -644,9 +758,12 @@ class SuperBotAPI {
             "BUY",
             {
               sol_amount: finalAmount,
-              token_amount: "0", // Will be updated when we get actual tokens received
+              // result.price is tokens received per SOL; the cooldown pairs sells against this amount
+              token_amount: Math.floor(
+                (result.price ?? 0) * finalAmount
+              ).toString(),
               price_per_token: onChain?.currentPriceUSD || result.price,
-              slippage_percent: finalSlippage,
+              slippage_percent: finalSlippage / 100,
               priority_fee: finalPriorityFee,
               priority_type: priority || "normal",
               stop_loss_percent: finalStopLoss,
@@ -666,6 +783,10 @@ class SuperBotAPI {
         }
       }
 
+      // API buys open no guarded position, so the ladder is only a preview, priced like the guards'
+      // entry_price (Jupiter SOL per token); nothing sells at these rungs
+      const ladderEntry = await livePrice(mint).catch(() => 0);
+
       return {
         success: true,
         data: {
@@ -681,8 +802,15 @@ class SuperBotAPI {
           onChainData: onChain,
           walletBalance: walletBalance,
           priceImpact: calculatedPriceImpact,
+          take_profit_ladder_preview: describeLadder(
+            ladderEntry > 0 ? ladderEntry : null
+          ),
+          sizing,
+          slippage,
+          paper: isPaper,
+          paperFill: isPaper ? result.fill : undefined,
         },
-        message: `Successfully bought ${finalAmount} SOL worth of ${mint}`,
+        message: `${paperTag(isPaper)}Successfully bought ${finalAmount} SOL worth of ${mint}`,
       };
     } catch (error) {
       this.logger.logTrade(
@@ -702,15 +830,23 @@ class SuperBotAPI {
   async executeSell(
     mint: string,
     percentage?: number,
-    onChain?: OnChainData
+    onChain?: OnChainData,
+    slippagePercent?: number,
+    twap?: TwapOptions | boolean,
+    paper?: boolean
   ): Promise<ApiResponse> {
     let txHash: string | undefined;
     let walletPublicKey: string | undefined;
     let calculatedPriceImpact = 0;
+    const isPaper = isPaperMode(paper);
 
     try {
       const sellPercent = percentage || 100;
-      console.log(`💰 SELL REQUEST: ${sellPercent}% of ${mint} holdings`);
+      console.log(
+        `💰 ${paperTag(
+          isPaper
+        )}SELL REQUEST: ${sellPercent}% of ${mint} holdings`
+      );
 
       // Log received on-chain data
       if (onChain) {
@@ -742,15 +878,17 @@ class SuperBotAPI {
       }
 
       // Validate wallet
-      if (!this.currentWallet) {
+      if (!this.currentWallet && !isPaper) {
         const error = "No wallet configured. Set wallet first.";
         this.logger.logTrade("SELL", mint, 0, undefined, false, error);
         return { success: false, error };
       }
 
       // Get wallet public key
-      const keypair = Keypair.fromSecretKey(bs58.decode(this.currentWallet));
-      walletPublicKey = keypair.publicKey.toString();
+      if (!isPaper) {
+        const keypair = Keypair.fromSecretKey(bs58.decode(this.currentWallet));
+        walletPublicKey = keypair.publicKey.toString();
+      }
 
       // Validate mint
       if (!mint || mint.length < 32) {
@@ -797,7 +935,9 @@ class SuperBotAPI {
 
       // Get actual wallet token balance
       console.log(`💰 Checking wallet token balance for ${mint}...`);
-      const walletTokenBalance = await this.getWalletTokenBalance(mint);
+      const walletTokenBalance = isPaper
+        ? await paperTokenBalance(mint)
+        : await this.getWalletTokenBalance(mint);
       console.log(`   Available tokens: ${walletTokenBalance}`);
 
       if (walletTokenBalance === 0) {
@@ -845,8 +985,8 @@ class SuperBotAPI {
           )}% (calculated for SELL)`
         );
 
-        // Safety check
-        if (calculatedPriceImpact > 15) {
+        // Safety check (TWAP jobs check impact per slice instead)
+        if (calculatedPriceImpact > 15 && !twap) {
           // Higher threshold for sells
           const error = `Price impact too high: ${calculatedPriceImpact.toFixed(
             2
@@ -865,13 +1005,63 @@ class SuperBotAPI {
         console.log(`   Price Impact: Cannot calculate (missing reserve data)`);
       }
 
+      if (isPaper) {
+        seedPaperPool(mint, onChain?.solReserve, onChain?.tokenReserve);
+      }
+
+      // Chunked exit: runs in the background, inspect/cancel via /api/sell/jobs
+      if (twap) {
+        let twapSold = 0;
+        const job = startTwapSell(
+          mint,
+          actualSellAmount,
+          isPaper
+            ? {
+                quote: (tokens) => paperSellQuote(mint, tokens),
+                sell: (tokens, bps) => paper_sell(mint, tokens, bps, "twap"),
+                getReserve: async () => paperPoolReserve(mint),
+              }
+            : {
+                quote: (tokens) => jupiter_sell_quote(mint, tokens),
+                sell: (tokens, bps) => jupiter_sell(mint, tokens, bps),
+                getReserve: () => solReserves([mint]).then((r) => r[mint] ?? 0),
+                onSlice: (slice) => {
+                  twapSold += slice.tokens;
+                  return this.recordTwapSlice(
+                    mint,
+                    walletPublicKey,
+                    slice,
+                    onChain,
+                    sellPercent === 100 && twapSold >= actualSellAmount
+                  );
+                },
+              },
+          twap === true ? {} : twap
+        );
+        return {
+          success: true,
+          data: { ...job.snapshot(), paper: isPaper },
+          message: `${paperTag(isPaper)}TWAP sell ${job.id} started for ${actualSellAmount} tokens (${sellPercent}%) of ${mint}`,
+        };
+      }
+
+      // Slippage: explicit request (percent) or the adaptive oracle
+      const slippage = resolveSlippageBps(mint, {
+        requestedBps: slippagePercent != null ? slippagePercent * 100 : null,
+        impactPercent: calculatedPriceImpact,
+        fallbackBps: loadConfig().execution.sell.slippageBpsByReason.manual[0],
+      });
+      console.log(`🎚️ Slippage: ${describeSlippage(slippage)}`);
+
       // Execute sell
-      const result = await jupiter_sell(mint, actualSellAmount);
+      const result = isPaper
+        ? await paper_sell(mint, actualSellAmount, slippage.bps, "api")
+        : await jupiter_sell(mint, actualSellAmount, slippage.bps);
       txHash = result.txid;
 
       // Check transaction status with retry logic
       let txStatus: TxStatus | null = null;
-      if (txHash && txHash !== "TXID_SELL_STUB") {
+      if (txHash && txHash !== "TXID_SELL_STUB" && !isPaper) {
         txStatus = await this.checkTxStatus(txHash);
 
         let retry: number = 1;
@@ -901,19 +1091,26 @@ class SuperBotAPI {
         mint,
         actualSellAmount,
         txHash,
-        txStatus?.confirmed
+        txStatus?.confirmed,
+        undefined,
+        `slippage=${describeSlippage(slippage)}${isPaper ? " paper=true" : ""}`
       );
 
       Notifications.emit({
         type: "sell",
         level: "success",
-        title: `SELL ${mint}`,
+        title: `${paperTag(isPaper)}SELL ${mint}`,
         body: `${actualSellAmount} tokens (${sellPercent}%)`,
         link: result.txid,
       });
 
       // 💾 Save to database ONLY if transaction is confirmed
-      if (txStatus?.confirmed && txHash && txHash !== "TXID_SELL_STUB") {
+      if (
+        txStatus?.confirmed &&
+        txHash &&
+        txHash !== "TXID_SELL_STUB" &&
+        !isPaper
+      ) {
         try {
           console.log(`💾 Saving successful sell transaction to database...`);
 
@@ -928,12 +1125,12 @@ class SuperBotAPI {
               price_per_token: result.solReceived
                 ? result.solReceived / actualSellAmount
                 : onChain?.currentPriceUSD || 0,
-              slippage_percent: 3.0,
+              slippage_percent: slippage.bps / 100,
               priority_fee: 0.0001,
               priority_type: "normal",
               price_impact_percent: calculatedPriceImpact,
               total_cost: result.solReceived || 0,
-              on_chain_data: onChain,
+              on_chain_data: { ...onChain, fullExit: sellPercent === 100 },
             }
           );
         } catch (dbError) {
@@ -959,8 +1156,11 @@ class SuperBotAPI {
           tx_status: txStatus,
           onChainData: onChain,
           priceImpact: calculatedPriceImpact,
+          slippage,
+          paper: isPaper,
+          paperFill: "fill" in result ? result.fill : undefined,
         },
-        message: `Successfully sold ${actualSellAmount} tokens (${sellPercent}%) of ${mint}`,
+        message: `${paperTag(isPaper)}Successfully sold ${actualSellAmount} tokens (${sellPercent}%) of ${mint}`,
       };
     } catch (error) {
       this.logger.logTrade("SELL", mint, 0, txHash, false, error.message);
@@ -1173,9 +1373,244 @@ class SuperBotAPI {
       return { success: false, error: error.message };
     }
   }
+
+  // Log and persist one filled TWAP slice like a regular sell; fullExit marks the slice that emptied the holding
+  private async recordTwapSlice(
+    mint: string,
+    walletPublicKey: string,
+    slice: TwapSlice,
+    onChain?: OnChainData,
+    fullExit = false
+  ) {
+    this.logger.logTrade(
+      "SELL",
+      mint,
+      slice.tokens,
+      slice.txid,
+      true,
+      undefined,
+      `twap_slice=${slice.index}${slice.market ? " market" : ""} slippage=${
+        slice.slippageBps
+      }bps impact=${slice.impactPercent.toFixed(2)}%`
+    );
+    try {
+      await transactionRepo.createSuccessful(
+        slice.txid,
+        walletPublicKey,
+        mint,
+        "SELL",
+        {
+          sol_amount: slice.solReceived,
+          token_amount: Math.floor(slice.tokens).toString(),
+          price_per_token: slice.solReceived / slice.tokens,
+          slippage_percent: slice.slippageBps / 100,
+          priority_type: "normal",
+          price_impact_percent: slice.impactPercent,
+          total_cost: slice.solReceived,
+          on_chain_data: { ...onChain, fullExit },
+        }
+      );
+    } catch (dbError) {
+      this.logger.logError("DB_SAVE_SUCCESS", dbError.message);
+      // Continue anyway - don't fail the job because of DB issues
+    }
+  }
+
+  // Get TWAP sell jobs (all, or one by id)
+  getSellJobs(id?: string): ApiResponse {
+    if (!id) return { success: true, data: listTwapJobs() };
+    const job = getTwapJob(id);
+    return job
+      ? { success: true, data: job.snapshot() }
+      : { success: false, error: `Sell job ${id} not found` };
+  }
+
+  cancelSellJob(id: string): ApiResponse {
+    const snapshot = cancelTwapJob(id);
+    return snapshot
+      ? { success: true, data: snapshot, message: `Cancelling ${id}` }
+      : { success: false, error: `Sell job ${id} not found` };
+  }
+
+  // Paper-trading mode, virtual balances and recent simulated fills
+  async getPaper(): Promise<ApiResponse> {
+    try {
+      return {
+        success: true,
+        data: {
+          enabled: isPaperMode(),
+          balances: await paperBalances(),
+          trades: await recentPaperTrades(20).catch(() => []),
+        },
+      };
+    } catch (error) {
+      this.logger.logError("GET_PAPER", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Get loss-streak cooldown state
+  async getCooldown(): Promise<ApiResponse> {
+    try {
+      return { success: true, data: await getCooldownStatus() };
+    } catch (error) {
+      this.logger.logError("GET_COOLDOWN", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Manually clear a tripped cooldown
+  async resetCooldown(resetBy: string, note?: string): Promise<ApiResponse> {
+    try {
+      const status = await resetCooldown(resetBy, note);
+      console.log(`🔓 Cooldown reset by ${resetBy}`);
+      return {
+        success: true,
+        data: status,
+        message: "Cooldown reset, trading resumed",
+      };
+    } catch (error) {
+      this.logger.logError("RESET_COOLDOWN", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Place a resting limit order (filled by the watcher)
+  async placeOrder(body: OrderRequest): Promise<ApiResponse> {
+    try {
+      const order = await placeLimitOrder({
+        token_mint: body.mint,
+        side: body.side,
+        limit_price: Number(body.price),
+        sol_amount: body.side === "BUY" ? Number(body.amount) : undefined,
+        token_amount: body.side === "SELL" ? Number(body.amount) : undefined,
+        slippage_bps: body.slippage
+          ? Math.round(body.slippage * 100)
+          : undefined,
+        expires_at: body.expires_in_sec
+          ? new Date(Date.now() + body.expires_in_sec * 1000)
+          : undefined,
+      });
+      return {
+        success: true,
+        data: order,
+        message: `Limit order #${order.id} placed`,
+      };
+    } catch (error) {
+      this.logger.logError("PLACE_ORDER", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getOrders(status?: LimitOrderStatus): Promise<ApiResponse> {
+    try {
+      return { success: true, data: await limitOrderRepo.list(status) };
+    } catch (error) {
+      this.logger.logError("GET_ORDERS", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getOrder(id: number): Promise<ApiResponse> {
+    try {
+      const order = await limitOrderRepo.getById(id);
+      return order
+        ? { success: true, data: order }
+        : { success: false, error: `Order #${id} not found` };
+    } catch (error) {
+      this.logger.logError("GET_ORDER", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Only OPEN orders can be cancelled; a FILLING order is already on its way
+  async cancelOrder(id: number): Promise<ApiResponse> {
+    try {
+      const order = await cancelLimitOrder(id);
+      if (order) {
+        return {
+          success: true,
+          data: order,
+          message: `Limit order #${id} cancelled`,
+        };
+      }
+      const existing = await limitOrderRepo.getById(id);
+      return {
+        success: false,
+        error: existing
+          ? `Order #${id} is ${existing.status}, cannot cancel`
+          : `Order #${id} not found`,
+      };
+    } catch (error) {
+      this.logger.logError("CANCEL_ORDER", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Guard state of active positions as last persisted by the process supervising them (superbot)
+  async getGuards(): Promise<ApiResponse> {
+    try {
+      const positions = await positionRepo.getActive();
+      return {
+        success: true,
+        data: positions.map((p) => ({
+          positionId: p.id,
+          mint: p.token_mint,
+          status: p.status,
+          entryPrice: p.entry_price,
+          sizeTokens: p.size_tokens,
+          peakPrice: p.peak_price ?? null,
+          trailingStop: p.guard_state.trailingStop ?? null,
+          stopLoss: p.guard_state.stopLoss ?? null,
+          autoScalp: p.guard_state.autoScalp ?? null,
+          take_profit_ladder: withLadder(p).take_profit_ladder,
+          persistedAt: p.updated_at,
+        })),
+      };
+    } catch (error) {
+      this.logger.logError("GET_GUARDS", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Get tracked positions with the take-profit rungs still waiting to fill
+  async getPositions(): Promise<ApiResponse> {
+    try {
+      const positions = await positionRepo.getRecent(20);
+      return { success: true, data: positions.map(withLadder) };
+    } catch (error) {
+      this.logger.logError("GET_POSITIONS", error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getPosition(id: number): Promise<ApiResponse> {
+    try {
+      const position = await positionRepo.getById(id);
+      if (!position) {
+        return { success: false, error: `Position #${id} not found` };
+      }
+      return { success: true, data: withLadder(position) };
+    } catch (error) {
+      this.logger.logError("GET_POSITION", error.message);
+      return { success: false, error: error.message };
+    }
+  }
 }
 
 // Helper functions
+function withLadder(position: PositionEntity) {
+  const ladder = describeLadder(
+    position.entry_price,
+    position.guard_state.ladder
+  );
+  return {
+    ...position,
+    take_profit_ladder:
+      position.status === "CLOSED" ? [] : ladder.filter((r) => !r.filled),
+  };
+}
+
 function parseBody(req: http.IncomingMessage): Promise<any> {
   return new Promise((resolve, reject) => {
     let body = "";
@@ -1199,6 +1634,18 @@ function sendResponse(
   res.end(JSON.stringify(data, null, 2));
 }
 
+// Admin endpoints require `Authorization: Bearer $API_ADMIN_TOKEN`; unset token disables them
+function isAdmin(req: http.IncomingMessage): boolean {
+  const token = process.env.API_ADMIN_TOKEN;
+  const header = req.headers["authorization"] || "";
+  if (!token || !header.startsWith("Bearer ")) return false;
+  const given = Buffer.from(header.slice(7));
+  const expected = Buffer.from(token);
+  return (
+    given.length === expected.length && crypto.timingSafeEqual(given, expected)
+  );
+}
+
 function getClientIP(req: http.IncomingMessage): string {
   return (
     (req.headers["x-forwarded-for"] as string) ||
@@ -1222,7 +1669,7 @@ const server = http.createServer(async (req, res) => {
     "Access-Control-Allow-Methods",
     "GET, POST, PUT, DELETE, OPTIONS"
   );
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
 
   if (req.method === "OPTIONS") {
     res.writeHead(200);
@@ -1250,19 +1697,50 @@ const server = http.createServer(async (req, res) => {
         body.take_profit,
         body.priority_fee,
         body.priority,
-        body.onChain
+        body.onChain,
+        body.paper
       );
       statusCode = result.success ? 200 : 400;
     }
 
     // Sell endpoint
     else if (method === "POST" && url === "/api/sell") {
-      const body: { mint: string; percentage?: number; onChain?: OnChainData } =
-        await parseBody(req);
-      result = await api.executeSell(body.mint, body.percentage, body.onChain);
+      const body: {
+        mint: string;
+        percentage?: number;
+        slippage?: number;
+        twap?: TwapOptions | boolean;
+        onChain?: OnChainData;
+        paper?: boolean;
+      } = await parseBody(req);
+      result = await api.executeSell(
+        body.mint,
+        body.percentage,
+        body.onChain,
+        body.slippage,
+        body.twap,
+        body.paper
+      );
       statusCode = result.success ? 200 : 400;
     }
 
+    // List TWAP sell jobs
+    else if (method === "GET" && url === "/api/sell/jobs") {
+      result = api.getSellJobs();
+    }
+
+    // Get one TWAP sell job
+    else if (method === "GET" && url.startsWith("/api/sell/jobs/")) {
+      result = api.getSellJobs(url.split("/")[4]);
+      statusCode = result.success ? 200 : 404;
+    }
+
+    // Cancel a TWAP sell job
+    else if (method === "DELETE" && url.startsWith("/api/sell/jobs/")) {
+      result = api.cancelSellJob(url.split("/")[4]);
+      statusCode = result.success ? 200 : 404;
+    }
+
     // Set wallet
     else if (method === "POST" && url === "/api/wallet") {
       const body: WalletRequest = await parseBody(req);
@@ -1299,6 +1777,82 @@ const server = http.createServer(async (req, res) => {
       result = await api.getHistory();
     }
 
+    // Get paper-trading ledger and recent simulated fills
+    else if (method === "GET" && url === "/api/paper") {
+      result = await api.getPaper();
+    }
+
+    // Get cooldown state
+    else if (method === "GET" && url === "/api/cooldown") {
+      result = await api.getCooldown();
+    }
+
+    // Reset cooldown (admin)
+    else if (method === "POST" && url === "/api/cooldown/reset") {
+      if (!isAdmin(req)) {
+        result = { success: false, error: "Unauthorized" };
+        statusCode = 401;
+      } else {
+        const body: { note?: string } = await parseBody(req);
+        result = await api.resetCooldown(`api:${clientIP}`, body.note);
+        statusCode = result.success ? 200 : 400;
+      }
+    }
+
+    // Place limit order
+    else if (method === "POST" && url === "/api/orders") {
+      const body: OrderRequest = await parseBody(req);
+      result = await api.placeOrder(body);
+      statusCode = result.success ? 200 : 400;
+    }
+
+    // List limit orders (optionally ?status=OPEN)
+    else if (
+      method === "GET" &&
+      (url === "/api/orders" || url.startsWith("/api/orders?"))
+    ) {
+      const urlParams = new URL(url, `http://localhost`);
+      const status = urlParams.searchParams.get("status") as LimitOrderStatus;
+      result = await api.getOrders(status?.toUpperCase() as LimitOrderStatus);
+    }
+
+    // Get one limit order
+    else if (method === "GET" && url.startsWith("/api/orders/")) {
+      const id = parseInt(url.split("/")[3]);
+      result = isNaN(id)
+        ? { success: false, error: "Invalid order id" }
+        : await api.getOrder(id);
+      statusCode = result.success ? 200 : 404;
+    }
+
+    // Cancel limit order
+    else if (method === "DELETE" && url.startsWith("/api/orders/")) {
+      const id = parseInt(url.split("/")[3]);
+      result = isNaN(id)
+        ? { success: false, error: "Invalid order id" }
+        : await api.cancelOrder(id);
+      statusCode = result.success ? 200 : 400;
+    }
+
+    // Get persisted guard state (stops, scalp, remaining ladder) of active positions
+    else if (method === "GET" && url === "/api/guards") {
+      result = await api.getGuards();
+    }
+
+    // Get positions
+    else if (method === "GET" && url === "/api/positions") {
+      result = await api.getPositions();
+    }
+
+    // Get one position
+    else if (method === "GET" && url.startsWith("/api/positions/")) {
+      const id = parseInt(url.split("/")[3]);
+      result = isNaN(id)
+        ? { success: false, error: "Invalid position id" }
+        : await api.getPosition(id);
+      statusCode = result.success ? 200 : 404;
+    }
+
     // 404
     else {
       result = { success: false, error: "Endpoint not found" };
@@ -1321,7 +1875,25 @@ const server = http.createServer(async (req, res) => {
 });
 
 const PORT = process.env.API_PORT || 8001;
-server.listen(PORT, () => {
-  console.log(`🚀 SuperBot API running on http://localhost:${PORT}`);
-  console.log(`📂 Logs directory: ${path.join(process.cwd(), "logs")}`);
-});
+PolicyStore.init()
+  .then(() => {
+    PolicyStore.on((c) =>
+      console.log(`🔁 Policy ${c.reason} reload: ${c.fingerprint}`)
+    );
+    PolicyStore.watch();
+    new LimitOrderWatcher().start();
+    server.listen(PORT, () => {
+      console.log(`🚀 SuperBot API running on http://localhost:${PORT}`);
+      console.log(`📂 Logs directory: ${path.join(process.cwd(), "logs")}`);
+    });
+  })
+  .catch((error) => {
+    // nothing listens or trades on a policy that failed to load or validate
+    console.error(
+      error instanceof PolicyValidationError
+        ? "❌ Refusing to start on an invalid trading policy:"
+        : "❌ Failed to load trading policy:",
+      error.message
+    );
+    process.exit(1);
+  });
@@ -0,0 +1,152 @@
+import "dotenv/config";
+import { PolicyStore } from "../helpers/policyStore.js";
+import {
+  groupByMint,
+  loadDbTicks,
+  loadTickFile,
+  Tick,
+} from "../backtest/series.js";
+import {
+  BacktestReport,
+  runBacktest,
+  usePolicyFile,
+} from "../backtest/runner.js";
+
+// Usage:
+//   npm run backtest -- --data ticks.csv [--data more.jsonl] [--db <mint> --from <iso> --to <iso>]
+//                       [--policy a.json --policy b.json] [--sol 0.2] [--json]
+// Each mint's series is one trade: buy --sol at its first tick, exit when a guard fires.
+// Every --policy file is merged over the effective policy and replayed on the same ticks.
+
+const EXIT_OK = 0;
+const EXIT_USAGE = 1; // bad arguments or no ticks loaded
+const EXIT_ERROR = 2; // unreadable data, invalid policy or other failure
+
+function argValues(args: string[], flag: string): string[] {
+  const out: string[] = [];
+  args.forEach((a, i) => {
+    if (a === flag && args[i + 1] !== undefined) out.push(args[i + 1]);
+  });
+  return out;
+}
+
+const fmt = (n: number, digits = 4) =>
+  Number.isFinite(n) ? n.toFixed(digits) : "n/a";
+
+function table(rows: string[][]) {
+  const widths = rows[0].map((_, c) =>
+    Math.max(...rows.map((r) => (r[c] ?? "").length))
+  );
+  for (const r of rows)
+    console.log("  " + r.map((cell, c) => cell.padEnd(widths[c])).join("  "));
+}
+
+function printReport(r: BacktestReport) {
+  console.log(`\n=== ${r.policy} (${r.fingerprint?.slice(0, 12)})`);
+  table([
+    [
+      "mint",
+      "hold s",
+      "entry",
+      "exit",
+      "sol in",
+      "sol out",
+      "pnl %",
+      "partials",
+      "reason",
+    ],
+    ...r.trades.map((t) => [
+      t.mint.slice(0, 12),
+      fmt(t.holdSec, 0),
+      t.entryPrice.toPrecision(6),
+      t.exitPrice.toPrecision(6),
+      fmt(t.solIn),
+      fmt(t.solOut),
+      fmt(t.pnlPercent, 2),
+      String(t.partials),
+      t.exitReason,
+    ]),
+  ]);
+}
+
+function printComparison(reports: BacktestReport[]) {
+  const reasons = [
+    ...new Set(reports.flatMap((r) => Object.keys(r.summary.exitReasons))),
+  ].sort();
+  console.log(`\n=== summary`);
+  table([
+    ["", ...reports.map((r) => r.policy)],
+    ["trades", ...reports.map((r) => String(r.summary.trades))],
+    ["win rate %", ...reports.map((r) => fmt(r.summary.winRatePercent, 1))],
+    ["pnl SOL", ...reports.map((r) => fmt(r.summary.pnlSol))],
+    ["avg pnl %", ...reports.map((r) => fmt(r.summary.avgPnlPercent, 2))],
+    ["max DD SOL", ...reports.map((r) => fmt(r.summary.maxDrawdownSol))],
+    ["max DD %", ...reports.map((r) => fmt(r.summary.maxDrawdownPercent, 2))],
+    ...reasons.map((reason) => [
+      `exit:${reason}`,
+      ...reports.map((r) => String(r.summary.exitReasons[reason] ?? 0)),
+    ]),
+  ]);
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const files = argValues(args, "--data");
+  const dbMints = argValues(args, "--db");
+  const policies = argValues(args, "--policy");
+  const sol = Number(argValues(args, "--sol")[0] ?? process.env.BUY_SOL ?? 0.2);
+  const from = argValues(args, "--from")[0];
+  const to = argValues(args, "--to")[0];
+
+  if ((!files.length && !dbMints.length) || !(sol > 0)) {
+    console.error(
+      "usage: backtest --data <file.csv|file.jsonl> | --db <mint> [--from <iso>] [--to <iso>] [--policy <file>]... [--sol <n>] [--json]"
+    );
+    return EXIT_USAGE;
+  }
+
+  await PolicyStore.init();
+  const base = PolicyStore.get();
+
+  const ticks: Tick[] = files.flatMap(loadTickFile);
+  for (const mint of dbMints) {
+    ticks.push(
+      ...(await loadDbTicks(
+        mint,
+        from ? new Date(from) : undefined,
+        to ? new Date(to) : undefined
+      ))
+    );
+  }
+  const series = groupByMint(ticks);
+  if (!series.size) {
+    console.error("[backtest] no ticks loaded");
+    return EXIT_USAGE;
+  }
+  console.log(
+    `[backtest] ${ticks.length} ticks across ${series.size} series, ${sol} SOL per trade`
+  );
+
+  const reports: BacktestReport[] = [];
+  for (const file of policies.length ? policies : [null]) {
+    const label = file ?? "current";
+    if (file) usePolicyFile(file, base);
+    else PolicyStore.use(base);
+    reports.push(await runBacktest(series, sol, label));
+  }
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    reports.forEach(printReport);
+    printComparison(reports);
+  }
+  return EXIT_OK;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error("[backtest]", e.message);
+    process.exit(EXIT_ERROR);
+  });
@@ -1,38 +1,148 @@
 import "dotenv/config";
-import fs from "fs";
-import path from "path";
-import https from "https";
-import http from "http";
-import { sha256OfObject, printPolicyBanner } from "../helpers/policyIntegrity.js";
-const localPath = path.join(
-  process.cwd(),
-  "src",
-  "policy",
-  "master_config.json"
-);
-const local = JSON.parse(fs.readFileSync(localPath, "utf-8"));
-printPolicyBanner(
-  "local",
-  local.version || "unknown",
-  local.schemaVersion || "unknown",
-  sha256OfObject(local)
-);
-const url = process.env.POLICY_URL || "";
-if (!url) {
-  console.log("[policy:check] POLICY_URL not set");
-  process.exit(0);
+import {
+  sha256OfObject,
+  printPolicyBanner,
+} from "../helpers/policyIntegrity.js";
+import { deepMerge } from "../helpers/merge.js";
+import {
+  fetchRemotePolicy,
+  readLocalLayers,
+  POLICY_SCHEMA_PATH,
+} from "../helpers/policyClient.js";
+import { validatePolicyShape } from "../helpers/policyValidator.js";
+import { PolicySignatureError } from "../helpers/policySignature.js";
+import { POLICY_DEFAULTS } from "../helpers/policyDefaults.js";
+import {
+  migratePolicy,
+  PolicyMigrationError,
+} from "../helpers/policyMigrations.js";
+import {
+  diffPolicies,
+  isEmptyDiff,
+  provenance,
+  PolicyDiff,
+  PolicyLayer,
+} from "../helpers/policyDiff.js";
+
+// Exit codes (usable as a deploy gate)
+const EXIT_OK = 0;
+const EXIT_DRIFT = 1; // remote policy differs from master_config.json
+const EXIT_SCHEMA = 2; // effective merged policy violates schema.json
+const EXIT_REMOTE = 3; // POLICY_URL set but could not be fetched
+const EXIT_ERROR = 4; // unreadable local files or other unexpected failure
+const EXIT_SIGNATURE = 5; // remote policy unsigned or not signed by a pinned key
+
+const args = process.argv.slice(2);
+const diffMode = args.includes("--diff");
+
+const fmt = (v: any) => JSON.stringify(v);
+
+function printDiff(title: string, d: PolicyDiff) {
+  console.log(`\n--- ${title}`);
+  if (isEmptyDiff(d)) {
+    console.log("  (no differences)");
+    return;
+  }
+  for (const c of d.added) console.log(`  + ${c.path} = ${fmt(c.new)}`);
+  for (const c of d.removed) console.log(`  - ${c.path} (was ${fmt(c.old)})`);
+  for (const c of d.changed)
+    console.log(`  ~ ${c.path}: ${fmt(c.old)} -> ${fmt(c.new)}`);
 }
-const h = url.startsWith("https") ? https : http;
-h.get(url, (res) => {
-  const chunks: Buffer[] = [];
-  res.on("data", (d) => chunks.push(d));
-  res.on("end", () => {
-    const remote = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
-    printPolicyBanner(
-      "remote",
-      remote.version || "unknown",
-      remote.schemaVersion || "unknown",
-      sha256OfObject(remote)
+
+async function main(): Promise<number> {
+  // compare layers as loadPolicy() sees them: upgraded to the current schemaVersion
+  const raw = readLocalLayers();
+  const master = migratePolicy(raw.master, "master_config.json").policy;
+  const defaults =
+    raw.defaults && migratePolicy(raw.defaults, "config.json").policy;
+  const local =
+    raw.local && migratePolicy(raw.local, "config.local.json").policy;
+  printPolicyBanner(
+    "local",
+    master.version || "unknown",
+    master.schemaVersion || "unknown",
+    sha256OfObject(master)
+  );
+
+  const url = process.env.POLICY_URL || "";
+  let remote: any = null;
+  let remoteFailure: number | null = null;
+  if (!url) {
+    console.log("[policy:check] POLICY_URL not set");
+  } else {
+    try {
+      const fetched = await fetchRemotePolicy(url);
+      remote = migratePolicy(fetched.policy, "remote policy").policy;
+      printPolicyBanner(
+        "remote",
+        remote.version || "unknown",
+        remote.schemaVersion || "unknown",
+        sha256OfObject(remote),
+        [`signed by    : ${fetched.keyId}`]
+      );
+    } catch (e) {
+      if (e instanceof PolicySignatureError) {
+        remoteFailure = EXIT_SIGNATURE;
+        console.error(`[policy:check] remote policy rejected: ${e.message}`);
+      } else {
+        remoteFailure = EXIT_REMOTE;
+        console.error(`[policy:check] failed to fetch ${url}: ${e.message}`);
+      }
+    }
+  }
+
+  const base: PolicyLayer = remote
+    ? { name: "remote", policy: remote }
+    : { name: "master", policy: master };
+  const layers: PolicyLayer[] = [
+    { name: "builtin", policy: POLICY_DEFAULTS },
+    base,
+  ];
+  if (defaults) layers.push({ name: "defaults", policy: defaults });
+  if (local) layers.push({ name: "local", policy: local });
+  const effective = layers
+    .slice(1)
+    .reduce((acc, l) => deepMerge(acc, l.policy), layers[0].policy);
+
+  const drift = remote ? diffPolicies(master, remote) : null;
+
+  if (diffMode) {
+    let acc = deepMerge(layers[0].policy, base.policy);
+    for (const l of layers.slice(2)) {
+      const next = deepMerge(acc, l.policy);
+      printDiff(`${l.name} overrides`, diffPolicies(acc, next));
+      acc = next;
+    }
+    if (drift) printDiff("remote vs master", drift);
+
+    console.log("\n--- effective values (layer <- path = value)");
+    for (const [p, src] of provenance(layers))
+      console.log(`  [${src.layer.padEnd(8)}] ${p} = ${fmt(src.value)}`);
+  }
+
+  console.log(`\neffective fingerprint: ${sha256OfObject(effective)}`);
+
+  const res = validatePolicyShape(effective, POLICY_SCHEMA_PATH);
+  if (!res.ok) {
+    console.error(`\n[policy:check] schema violations (${res.errors.length}):`);
+    for (const e of res.errors)
+      console.error(`  ${e.path || "/"}: ${e.message}`);
+    return EXIT_SCHEMA;
+  }
+  if (remoteFailure !== null) return remoteFailure;
+  if (drift && !isEmptyDiff(drift)) {
+    console.error(
+      `\n[policy:check] drift: remote differs from master_config.json (${drift.added.length} added, ${drift.removed.length} removed, ${drift.changed.length} changed)`
     );
+    return EXIT_DRIFT;
+  }
+  console.log("[policy:check] OK");
+  return EXIT_OK;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error(e);
+    process.exit(e instanceof PolicyMigrationError ? EXIT_SCHEMA : EXIT_ERROR);
   });
-}).on("error", (e) => console.error(e));
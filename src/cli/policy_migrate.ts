@@ -0,0 +1,40 @@
+import fs from "fs";
+import path from "path";
+import { LOCAL_OVERRIDES } from "../helpers/policyClient.js";
+import {
+  migratePolicy,
+  CURRENT_SCHEMA_VERSION,
+} from "../helpers/policyMigrations.js";
+
+// Usage: policy:migrate [file] [--dry-run]   (file defaults to config/config.local.json)
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const fileArg = args.find((a) => !a.startsWith("--"));
+const target = fileArg ? path.resolve(fileArg) : LOCAL_OVERRIDES;
+
+if (!fs.existsSync(target)) {
+  console.error(`[policy:migrate] ${target} not found`);
+  process.exit(1);
+}
+
+const before = JSON.parse(fs.readFileSync(target, "utf-8"));
+const res = migratePolicy(before, path.basename(target));
+
+if (res.from === res.to) {
+  console.log(
+    `[policy:migrate] ${target} already at schemaVersion ${CURRENT_SCHEMA_VERSION}`
+  );
+  process.exit(0);
+}
+
+console.log(
+  `[policy:migrate] ${target}: schemaVersion ${res.from} -> ${res.to}`
+);
+for (const line of res.changelog) console.log(`  ${line}`);
+
+if (dryRun) {
+  console.log("[policy:migrate] dry run, file not written");
+} else {
+  fs.writeFileSync(target, JSON.stringify(res.policy, null, 2) + "\n");
+  console.log(`[policy:migrate] wrote ${target}`);
+}
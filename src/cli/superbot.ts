@@ -2,6 +2,12 @@
 import "dotenv/config";
 import { waitAndSnipeMint } from "../trading/waitAndSnipeMint.js";
 import { Notifications } from "../notifications/bus.js";
+import { PolicyStore } from "../helpers/policyStore.js";
+import { PolicyValidationError } from "../helpers/policyValidator.js";
+import { resumeOpenPositions, supervisor } from "../trading/positionSupervisor.js";
+import { marketFeed, livePrice, liquidityUsd } from "../integration/marketFeed.js";
+import type { WaitPreset } from "../types/policy.js";
+import type { CancelMode } from "../trading/cancel.js";
 import { hasPoolNow, getLivePrice, getLiquidityUsd, qtyTokensAfterBuy } from "../integration/adapters.js";
 
 async function main(){
@@ -9,6 +15,21 @@ async function main(){
   const sol  = Number(process.env.BUY_SOL || "0.2");
   if (!mint) throw new Error("Set TARGET_MINT in .env");
   Notifications.on(e=>console.log(`[${e.level}] ${e.type} :: ${e.title}`, e.body||"", e.link||""));
-  await waitAndSnipeMint(mint, sol, { hasPoolNow, getLivePrice, getLiquidityUsd, qtyTokensAfterBuy });
+  // an invalid merged policy stops here, before any position is resumed or sniped
+  await PolicyStore.init().catch(e => { throw e instanceof PolicyValidationError ? new Error(`Refusing to trade on an invalid policy: ${e.message}`) : e; });
+  PolicyStore.on(c=>console.log(`[policy] ${c.reason} reload -> ${c.fingerprint}`));
+  PolicyStore.watch();
+  supervisor.setFeed(marketFeed);
+  // kill -USR2 <pid> dumps the live guard state of every supervised position
+  process.on("SIGUSR2", () => console.log(JSON.stringify(supervisor.inspect(), null, 2)));
+  // resumed positions can be any mint, so they need the mint-keyed market adapters, not the TARGET_MINT stubs
+  await resumeOpenPositions({ getLivePrice: livePrice, getLiquidityUsd: liquidityUsd }).catch(e=>console.error("[positions] resume failed:", e.message));
+  const preset = (process.env.WAIT_PRESET || undefined) as WaitPreset | undefined;
+  const expectedLaunchAt = process.env.LAUNCH_AT ? Date.parse(process.env.LAUNCH_AT) : undefined;
+  // first Ctrl+C cancels the snipe (CANCEL_MODE=exit|detach once in a position), a second one kills the process
+  const abort = new AbortController(); const onCancel = (process.env.CANCEL_MODE || "exit") as CancelMode;
+  process.once("SIGINT", () => { console.log(`[superbot] cancelling (${onCancel})... Ctrl+C again to kill`); abort.abort(); process.once("SIGINT", () => process.exit(130)); });
+  const outcome = await waitAndSnipeMint(mint, sol, { hasPoolNow, getLivePrice, getLiquidityUsd, qtyTokensAfterBuy, preset, expectedLaunchAt, signal: abort.signal, onCancel });
+  if (outcome.cancelled) console.log(`[superbot] position #${outcome.positionId} ${outcome.cancelled === "exit" ? (outcome.closed ? "closed" : "exit failed") : "detached"}`);
 }
 main().catch(e=>{ console.error(e); process.exit(1); });
@@ -0,0 +1,6 @@
+export interface CooldownResetEntity {
+  id: number;
+  reset_by: string; // Who cleared the cooldown (API client / operator label)
+  note?: string;
+  reset_at: Date;
+}
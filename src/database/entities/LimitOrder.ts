@@ -0,0 +1,44 @@
+export type LimitOrderSide = "BUY" | "SELL";
+export type LimitOrderStatus =
+  | "OPEN"
+  | "FILLING" // claimed by the watcher, swap in flight
+  | "FILLED"
+  | "CANCELLED"
+  | "EXPIRED"
+  | "FAILED";
+
+export interface LimitOrderEntity {
+  // Primary key
+  id: number;
+
+  // Order
+  token_mint: string;
+  side: LimitOrderSide; // BUY fills at or below, SELL at or above
+  limit_price: number; // SOL per token
+  sol_amount?: number; // SOL to spend (BUY)
+  token_amount?: number; // Tokens to sell (SELL)
+  slippage_bps?: number; // Omitted = slippage oracle
+
+  // Lifecycle
+  status: LimitOrderStatus;
+  expires_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+
+  // Fill
+  filled_at?: Date;
+  fill_price?: number;
+  fill_tx_hash?: string;
+  error?: string;
+}
+
+// For creating new orders
+export interface CreateLimitOrderRequest {
+  token_mint: string;
+  side: LimitOrderSide;
+  limit_price: number;
+  sol_amount?: number;
+  token_amount?: number;
+  slippage_bps?: number;
+  expires_at?: Date;
+}
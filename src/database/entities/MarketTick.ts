@@ -0,0 +1,12 @@
+export interface MarketTickEntity {
+  // Primary key
+  id: number;
+
+  token_mint: string;
+  ts: Date;
+  price: number; // SOL per token
+  sol_reserve?: number; // pool reserves when the feed provides them
+  token_reserve?: number;
+}
+
+export type CreateMarketTickRequest = Omit<MarketTickEntity, "id">;
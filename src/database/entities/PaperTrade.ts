@@ -0,0 +1,34 @@
+export type PaperFillSource = "reserves" | "quote"; // constant-product on known reserves, or a Jupiter quote
+
+export interface PaperTradeEntity {
+  // Primary key
+  id: number;
+
+  // Fill
+  tx_hash: string; // PAPER-..., never a real signature
+  token_mint: string;
+  side: "BUY" | "SELL";
+  sol_amount: number;
+  token_amount: number;
+  price_per_token?: number; // SOL per token
+  price_impact_percent?: number;
+  slippage_bps?: number;
+  fill_source: PaperFillSource;
+  context?: string; // api, snipe, twap, ...
+
+  // Virtual ledger after this fill
+  sol_balance_after: number;
+  token_balance_after: number;
+
+  created_at: Date;
+}
+
+export type CreatePaperTradeRequest = Omit<
+  PaperTradeEntity,
+  "id" | "created_at"
+>;
+
+export interface PaperLedger {
+  sol: number | null; // null = no paper trades yet
+  tokens: Record<string, number>;
+}
@@ -0,0 +1,61 @@
+import type { TrailingStopState } from "../../trading/trailingStop.js";
+import type { AutoScalpState } from "../../trading/autoScalp.js";
+import type { LadderState } from "../../trading/takeProfitLadder.js";
+import type { StopLossState } from "../../trading/stopLoss.js";
+
+// DETACHED: a cancelled snipe left the tokens in the wallet unguarded
+export type PositionStatus = "OPEN" | "EXITING" | "CLOSED" | "DETACHED";
+
+// Per-guard state persisted so a restarted process resumes the same stops
+export interface GuardState {
+  trailingStop?: TrailingStopState;
+  autoScalp?: AutoScalpState;
+  ladder?: LadderState;
+  stopLoss?: StopLossState;
+}
+
+export interface PartialExit {
+  at: string; // ISO timestamp
+  reason: string; // SellReason that triggered it
+  tokens: number; // Tokens sold
+  price: number; // Price at exit
+  tx_hash?: string;
+}
+
+export interface PositionEntity {
+  // Primary key
+  id: number;
+
+  // Identity
+  token_mint: string;
+  wallet_address: string;
+
+  // Entry
+  entry_price: number; // Live price at entry
+  size_tokens: number; // Tokens currently held by this position
+  sol_amount: number; // SOL spent on entry
+  buy_tx_hash?: string;
+
+  // Guard state
+  peak_price?: number;
+  guard_state: GuardState;
+  partial_exits: PartialExit[];
+
+  // Lifecycle
+  status: PositionStatus;
+  exit_reason?: string;
+  opened_at: Date;
+  updated_at: Date;
+  closed_at?: Date;
+}
+
+// For creating new positions
+export interface CreatePositionRequest {
+  token_mint: string;
+  wallet_address: string;
+  entry_price: number;
+  size_tokens: number;
+  sol_amount: number;
+  buy_tx_hash?: string;
+  guard_state?: GuardState;
+}
@@ -0,0 +1,35 @@
+import { db } from "../connection.js";
+import { CooldownResetEntity } from "../entities/CooldownReset.js";
+
+export class CooldownRepository {
+  async recordReset(
+    resetBy: string,
+    note?: string
+  ): Promise<CooldownResetEntity> {
+    try {
+      const result = await db.query(
+        `INSERT INTO cooldown_resets (reset_by, note) VALUES ($1, $2) RETURNING *`,
+        [resetBy, note ?? null]
+      );
+      console.log(`✅ Cooldown reset recorded by ${resetBy}`);
+      return result.rows[0];
+    } catch (error) {
+      console.error(`❌ Failed to record cooldown reset:`, error.message);
+      throw error;
+    }
+  }
+
+  async getLatestReset(): Promise<CooldownResetEntity | null> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM cooldown_resets ORDER BY reset_at DESC LIMIT 1`
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error(`❌ Failed to get cooldown reset:`, error.message);
+      throw error;
+    }
+  }
+}
+
+export const cooldownRepo = new CooldownRepository();
@@ -0,0 +1,161 @@
+import { db } from "../connection.js";
+import {
+  CreateLimitOrderRequest,
+  LimitOrderEntity,
+  LimitOrderStatus,
+} from "../entities/LimitOrder.js";
+
+// pg returns DECIMAL columns as strings
+function toEntity(row: any): LimitOrderEntity {
+  return {
+    ...row,
+    limit_price: Number(row.limit_price),
+    sol_amount: row.sol_amount === null ? undefined : Number(row.sol_amount),
+    token_amount:
+      row.token_amount === null ? undefined : Number(row.token_amount),
+    fill_price: row.fill_price === null ? undefined : Number(row.fill_price),
+  };
+}
+
+export class LimitOrderRepository {
+  async create(data: CreateLimitOrderRequest): Promise<LimitOrderEntity> {
+    try {
+      const result = await db.query(
+        `INSERT INTO limit_orders (
+          token_mint, side, limit_price, sol_amount, token_amount,
+          slippage_bps, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *`,
+        [
+          data.token_mint,
+          data.side,
+          data.limit_price,
+          data.sol_amount ?? null,
+          data.token_amount == null ? null : Math.floor(data.token_amount),
+          data.slippage_bps ?? null,
+          data.expires_at ?? null,
+        ]
+      );
+      console.log(
+        `✅ Limit order placed: #${result.rows[0].id} ${data.side} ${data.token_mint} @ ${data.limit_price}`
+      );
+      return toEntity(result.rows[0]);
+    } catch (error) {
+      console.error(`❌ Failed to create limit order:`, error.message);
+      throw error;
+    }
+  }
+
+  async getById(id: number): Promise<LimitOrderEntity | null> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM limit_orders WHERE id = $1`,
+        [id]
+      );
+      return result.rows[0] ? toEntity(result.rows[0]) : null;
+    } catch (error) {
+      console.error(`❌ Failed to get limit order #${id}:`, error.message);
+      throw error;
+    }
+  }
+
+  async list(
+    status?: LimitOrderStatus,
+    limit: number = 50
+  ): Promise<LimitOrderEntity[]> {
+    try {
+      const result = status
+        ? await db.query(
+            `SELECT * FROM limit_orders WHERE status = $1 ORDER BY created_at DESC LIMIT $2`,
+            [status, limit]
+          )
+        : await db.query(
+            `SELECT * FROM limit_orders ORDER BY created_at DESC LIMIT $1`,
+            [limit]
+          );
+      return result.rows.map(toEntity);
+    } catch (error) {
+      console.error(`❌ Failed to list limit orders:`, error.message);
+      throw error;
+    }
+  }
+
+  // Open orders past their expiry become EXPIRED; returns them for notifications
+  async expireDue(): Promise<LimitOrderEntity[]> {
+    try {
+      const result = await db.query(
+        `UPDATE limit_orders
+         SET status = 'EXPIRED', updated_at = NOW()
+         WHERE status = 'OPEN' AND expires_at IS NOT NULL AND expires_at <= NOW()
+         RETURNING *`
+      );
+      return result.rows.map(toEntity);
+    } catch (error) {
+      console.error(`❌ Failed to expire limit orders:`, error.message);
+      throw error;
+    }
+  }
+
+  // OPEN -> FILLING; null when another watcher or a cancel got there first
+  async claim(id: number): Promise<LimitOrderEntity | null> {
+    try {
+      const result = await db.query(
+        `UPDATE limit_orders
+         SET status = 'FILLING', updated_at = NOW()
+         WHERE id = $1 AND status = 'OPEN'
+         RETURNING *`,
+        [id]
+      );
+      return result.rows[0] ? toEntity(result.rows[0]) : null;
+    } catch (error) {
+      console.error(`❌ Failed to claim limit order #${id}:`, error.message);
+      throw error;
+    }
+  }
+
+  async markFilled(
+    id: number,
+    fillPrice: number,
+    txHash: string
+  ): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE limit_orders
+         SET status = 'FILLED', fill_price = $2, fill_tx_hash = $3,
+             filled_at = NOW(), updated_at = NOW()
+         WHERE id = $1`,
+        [id, fillPrice, txHash]
+      );
+    } catch (error) {
+      console.error(
+        `❌ Failed to mark limit order #${id} filled:`,
+        error.message
+      );
+      throw error;
+    }
+  }
+
+  // Moves an order to `status` only if it is currently in one of `from`
+  async transition(
+    id: number,
+    from: LimitOrderStatus[],
+    status: LimitOrderStatus,
+    error?: string
+  ): Promise<LimitOrderEntity | null> {
+    try {
+      const result = await db.query(
+        `UPDATE limit_orders
+         SET status = $3, error = COALESCE($4, error), updated_at = NOW()
+         WHERE id = $1 AND status = ANY($2)
+         RETURNING *`,
+        [id, from, status, error ?? null]
+      );
+      return result.rows[0] ? toEntity(result.rows[0]) : null;
+    } catch (error) {
+      console.error(`❌ Failed to update limit order #${id}:`, error.message);
+      throw error;
+    }
+  }
+}
+
+export const limitOrderRepo = new LimitOrderRepository();
@@ -0,0 +1,67 @@
+import { db } from "../connection.js";
+import {
+  CreateMarketTickRequest,
+  MarketTickEntity,
+} from "../entities/MarketTick.js";
+
+// pg returns DECIMAL columns as strings
+function toEntity(row: any): MarketTickEntity {
+  return {
+    ...row,
+    price: Number(row.price),
+    sol_reserve: row.sol_reserve === null ? undefined : Number(row.sol_reserve),
+    token_reserve:
+      row.token_reserve === null ? undefined : Number(row.token_reserve),
+  };
+}
+
+export class MarketTickRepository {
+  async createMany(ticks: CreateMarketTickRequest[]): Promise<void> {
+    if (!ticks.length) return;
+    try {
+      const values: any[] = [];
+      const rows = ticks.map((t, i) => {
+        values.push(
+          t.token_mint,
+          t.ts,
+          t.price,
+          t.sol_reserve ?? null,
+          t.token_reserve == null ? null : Math.floor(t.token_reserve)
+        );
+        const o = i * 5;
+        return `($${o + 1}, $${o + 2}, $${o + 3}, $${o + 4}, $${o + 5})`;
+      });
+      await db.query(
+        `INSERT INTO market_ticks (token_mint, ts, price, sol_reserve, token_reserve)
+         VALUES ${rows.join(", ")}`,
+        values
+      );
+    } catch (error) {
+      console.error(`❌ Failed to record market ticks:`, error.message);
+      throw error;
+    }
+  }
+
+  async getSeries(
+    mint: string,
+    from?: Date,
+    to?: Date
+  ): Promise<MarketTickEntity[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM market_ticks
+         WHERE token_mint = $1
+           AND ($2::timestamp IS NULL OR ts >= $2)
+           AND ($3::timestamp IS NULL OR ts <= $3)
+         ORDER BY ts ASC`,
+        [mint, from ?? null, to ?? null]
+      );
+      return result.rows.map(toEntity);
+    } catch (error) {
+      console.error(`❌ Failed to load ticks for ${mint}:`, error.message);
+      throw error;
+    }
+  }
+}
+
+export const marketTickRepo = new MarketTickRepository();
@@ -0,0 +1,99 @@
+import { db } from "../connection.js";
+import {
+  CreatePaperTradeRequest,
+  PaperLedger,
+  PaperTradeEntity,
+} from "../entities/PaperTrade.js";
+
+// pg returns DECIMAL columns as strings
+function toEntity(row: any): PaperTradeEntity {
+  return {
+    ...row,
+    sol_amount: Number(row.sol_amount),
+    token_amount: Number(row.token_amount),
+    price_per_token:
+      row.price_per_token === null ? undefined : Number(row.price_per_token),
+    price_impact_percent:
+      row.price_impact_percent === null
+        ? undefined
+        : Number(row.price_impact_percent),
+    sol_balance_after: Number(row.sol_balance_after),
+    token_balance_after: Number(row.token_balance_after),
+  };
+}
+
+export class PaperTradeRepository {
+  async create(data: CreatePaperTradeRequest): Promise<PaperTradeEntity> {
+    try {
+      const result = await db.query(
+        `INSERT INTO paper_trades (
+          tx_hash, token_mint, side, sol_amount, token_amount, price_per_token,
+          price_impact_percent, slippage_bps, fill_source, context,
+          sol_balance_after, token_balance_after
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *`,
+        [
+          data.tx_hash,
+          data.token_mint,
+          data.side,
+          data.sol_amount,
+          Math.floor(data.token_amount),
+          data.price_per_token ?? null,
+          data.price_impact_percent ?? null,
+          data.slippage_bps ?? null,
+          data.fill_source,
+          data.context ?? null,
+          data.sol_balance_after,
+          Math.floor(data.token_balance_after),
+        ]
+      );
+      console.log(
+        `✅ Paper ${data.side} saved: ${data.tx_hash} (${data.sol_amount} SOL)`
+      );
+      return toEntity(result.rows[0]);
+    } catch (error) {
+      console.error(`❌ Failed to save paper trade:`, error.message);
+      throw error;
+    }
+  }
+
+  async getRecent(limit: number = 50): Promise<PaperTradeEntity[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM paper_trades ORDER BY id DESC LIMIT $1`,
+        [limit]
+      );
+      return result.rows.map(toEntity);
+    } catch (error) {
+      console.error(`❌ Failed to get paper trades:`, error.message);
+      throw error;
+    }
+  }
+
+  // Latest SOL balance plus the latest token balance per mint
+  async getLedger(): Promise<PaperLedger> {
+    try {
+      const sol = await db.query(
+        `SELECT sol_balance_after FROM paper_trades ORDER BY id DESC LIMIT 1`
+      );
+      const tokens = await db.query(
+        `SELECT DISTINCT ON (token_mint) token_mint, token_balance_after
+         FROM paper_trades
+         ORDER BY token_mint, id DESC`
+      );
+      return {
+        sol: sol.rows[0] ? Number(sol.rows[0].sol_balance_after) : null,
+        tokens: Object.fromEntries(
+          tokens.rows
+            .map((r) => [r.token_mint, Number(r.token_balance_after)])
+            .filter(([, balance]) => balance > 0)
+        ),
+      };
+    } catch (error) {
+      console.error(`❌ Failed to load paper ledger:`, error.message);
+      throw error;
+    }
+  }
+}
+
+export const paperTradeRepo = new PaperTradeRepository();
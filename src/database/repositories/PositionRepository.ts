@@ -0,0 +1,177 @@
+import { db } from "../connection.js";
+import {
+  CreatePositionRequest,
+  GuardState,
+  PartialExit,
+  PositionEntity,
+  PositionStatus,
+} from "../entities/Position.js";
+
+// pg returns DECIMAL columns as strings
+function toEntity(row: any): PositionEntity {
+  return {
+    ...row,
+    entry_price: Number(row.entry_price),
+    size_tokens: Number(row.size_tokens),
+    sol_amount: Number(row.sol_amount),
+    peak_price: row.peak_price === null ? undefined : Number(row.peak_price),
+    guard_state: row.guard_state || {},
+    partial_exits: row.partial_exits || [],
+  };
+}
+
+export class PositionRepository {
+  async create(data: CreatePositionRequest): Promise<PositionEntity> {
+    try {
+      const query = `
+        INSERT INTO positions (
+          token_mint, wallet_address, entry_price, size_tokens,
+          sol_amount, buy_tx_hash, peak_price, guard_state
+        ) VALUES ($1, $2, $3, $4, $5, $6, $3, $7)
+        RETURNING *
+      `;
+
+      const result = await db.query(query, [
+        data.token_mint,
+        data.wallet_address,
+        data.entry_price,
+        Math.floor(data.size_tokens),
+        data.sol_amount,
+        data.buy_tx_hash,
+        JSON.stringify(data.guard_state || {}),
+      ]);
+      console.log(
+        `✅ Position opened: #${result.rows[0].id} ${data.token_mint}`
+      );
+      return toEntity(result.rows[0]);
+    } catch (error) {
+      console.error(`❌ Failed to create position:`, error.message);
+      throw error;
+    }
+  }
+
+  // Persist guard progress (peak, armed stops)
+  async saveGuardState(
+    id: number,
+    peakPrice: number,
+    guardState: GuardState
+  ): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE positions
+         SET peak_price = $2, guard_state = $3, updated_at = NOW()
+         WHERE id = $1`,
+        [id, peakPrice, JSON.stringify(guardState)]
+      );
+    } catch (error) {
+      console.error(`❌ Failed to save guard state #${id}:`, error.message);
+      throw error;
+    }
+  }
+
+  // Fold a scale-in tranche into the position (new average entry and totals)
+  async addTranche(
+    id: number,
+    entryPrice: number,
+    sizeTokens: number,
+    solAmount: number,
+    guardState: GuardState
+  ): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE positions
+         SET entry_price = $2, size_tokens = $3, sol_amount = $4,
+             guard_state = $5, updated_at = NOW()
+         WHERE id = $1`,
+        [
+          id,
+          entryPrice,
+          Math.floor(sizeTokens),
+          solAmount,
+          JSON.stringify(guardState),
+        ]
+      );
+    } catch (error) {
+      console.error(`❌ Failed to add tranche #${id}:`, error.message);
+      throw error;
+    }
+  }
+
+  // Record a partial exit and shrink the remaining size
+  async addPartialExit(id: number, exit: PartialExit): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE positions
+         SET partial_exits = partial_exits || $2::jsonb,
+             size_tokens = GREATEST(size_tokens - $3, 0),
+             updated_at = NOW()
+         WHERE id = $1`,
+        [id, JSON.stringify([exit]), Math.floor(exit.tokens)]
+      );
+    } catch (error) {
+      console.error(`❌ Failed to record partial exit #${id}:`, error.message);
+      throw error;
+    }
+  }
+
+  async setStatus(
+    id: number,
+    status: PositionStatus,
+    exitReason?: string
+  ): Promise<void> {
+    try {
+      await db.query(
+        `UPDATE positions
+         SET status = $2,
+             exit_reason = COALESCE($3, exit_reason),
+             closed_at = CASE WHEN $2 = 'CLOSED' THEN NOW() ELSE closed_at END,
+             updated_at = NOW()
+         WHERE id = $1`,
+        [id, status, exitReason ?? null]
+      );
+    } catch (error) {
+      console.error(`❌ Failed to update position #${id}:`, error.message);
+      throw error;
+    }
+  }
+
+  async getById(id: number): Promise<PositionEntity | null> {
+    try {
+      const result = await db.query(`SELECT * FROM positions WHERE id = $1`, [
+        id,
+      ]);
+      return result.rows[0] ? toEntity(result.rows[0]) : null;
+    } catch (error) {
+      console.error(`❌ Failed to get position #${id}:`, error.message);
+      throw error;
+    }
+  }
+
+  // Positions that still need a guard loop or a pending exit sell
+  async getActive(): Promise<PositionEntity[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM positions WHERE status IN ('OPEN', 'EXITING') ORDER BY opened_at ASC`
+      );
+      return result.rows.map(toEntity);
+    } catch (error) {
+      console.error(`❌ Failed to get active positions:`, error.message);
+      throw error;
+    }
+  }
+
+  async getRecent(limit: number = 20): Promise<PositionEntity[]> {
+    try {
+      const result = await db.query(
+        `SELECT * FROM positions ORDER BY opened_at DESC LIMIT $1`,
+        [limit]
+      );
+      return result.rows.map(toEntity);
+    } catch (error) {
+      console.error(`❌ Failed to get recent positions:`, error.message);
+      throw error;
+    }
+  }
+}
+
+export const positionRepo = new PositionRepository();
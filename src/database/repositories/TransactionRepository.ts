@@ -98,6 +98,26 @@ export class TransactionRepository {
       throw error;
     }
   }
+
+  // Latest transactions in execution order (oldest first), for realized-PnL replays
+  async getLatestChronological(limit: number = 500): Promise<any[]> {
+    try {
+      const query = `
+        SELECT * FROM (
+          SELECT * FROM transactions
+          ORDER BY created_at DESC
+          LIMIT $1
+        ) latest
+        ORDER BY created_at ASC
+      `;
+
+      const result = await db.query(query, [limit]);
+      return result.rows;
+    } catch (error) {
+      console.error(`❌ Failed to get transactions:`, error.message);
+      throw error;
+    }
+  }
 }
 
 export const transactionRepo = new TransactionRepository();
@@ -1 +1,2 @@
-export const CFG:any={};
+import type { DeepPartial, TradingPolicy } from "../types/policy.js";
+export const CFG: DeepPartial<TradingPolicy> = {};
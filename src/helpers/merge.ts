@@ -1,5 +1,6 @@
+import type { DeepPartial } from "../types/policy.js";
 
-export function deepMerge<T>(base: T, patch: Partial<T>): T {
+export function deepMerge<T>(base: T, patch: DeepPartial<T> | null | undefined): T {
   if (patch === null || patch === undefined) return base;
   if (typeof base !== "object" || typeof patch !== "object") return (patch as T) ?? base;
   const out: any = Array.isArray(base) ? [...(base as any)] : {...(base as any)};
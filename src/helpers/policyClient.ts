@@ -5,12 +5,18 @@ import http from "http";
 import https from "https";
 import { deepMerge } from "./merge.js";
 import { sha256OfObject, printPolicyBanner } from "./policyIntegrity.js";
-import { validatePolicyShape } from "./policyValidator.js";
+import { assertValidPolicy } from "./policyValidator.js";
+import { loadPinnedKeys, signatureUrlFor, verifyPolicySignature, PolicySignatureError } from "./policySignature.js";
+import { Notifications } from "../notifications/bus.js";
+import { POLICY_DEFAULTS } from "./policyDefaults.js";
+import { migratePolicy } from "./policyMigrations.js";
+import type { DeepPartial, TradingPolicy } from "../types/policy.js";
 
 const root = process.cwd();
-const LOCAL_POLICY_PATH = path.join(root, "src", "policy", "master_config.json");
-const LOCAL_BOT_DEFAULTS = path.join(root, "config", "config.json");
-const LOCAL_OVERRIDES = path.join(root, "config", "config.local.json");
+export const LOCAL_POLICY_PATH = path.join(root, "src", "policy", "master_config.json");
+export const LOCAL_BOT_DEFAULTS = path.join(root, "config", "config.json");
+export const LOCAL_OVERRIDES = path.join(root, "config", "config.local.json");
+export const POLICY_SCHEMA_PATH = path.join(root, "src", "policy", "schema.json");
 
 function fetchUrl(url: string): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -25,23 +31,72 @@ function fetchUrl(url: string): Promise<string> {
   });
 }
 
-export async function loadPolicy(): Promise<any> {
-  const url = process.env.POLICY_URL || "";
-  let policy: any = null;
-  try {
-    if (url) {
-      if (url.startsWith("file://")) policy = JSON.parse(fs.readFileSync(url.replace("file://",""), "utf-8"));
-      else if (url.startsWith("http")) policy = JSON.parse(await fetchUrl(url));
-    }
-  } catch (e) { /* ignore and fallback */ }
-  if (!policy) policy = JSON.parse(fs.readFileSync(LOCAL_POLICY_PATH, "utf-8"));
+function readJson(p: string): any { return JSON.parse(fs.readFileSync(p, "utf-8")); }
+
+function fetchRaw(url: string): Promise<string> {
+  if (url.startsWith("file://")) return Promise.resolve(fs.readFileSync(url.replace("file://",""), "utf-8"));
+  if (url.startsWith("http")) return fetchUrl(url);
+  return Promise.reject(new Error(`Unsupported POLICY_URL scheme: ${url}`));
+}
+
+/** Fetches the remote policy and its detached signature; throws PolicySignatureError unless a pinned key signed it. */
+export async function fetchRemotePolicy(url: string): Promise<{ policy: DeepPartial<TradingPolicy>; keyId: string }> {
+  const body = await fetchRaw(url);
+  let sig: string|null = null;
+  try { sig = await fetchRaw(signatureUrlFor(url)); } catch { /* treated as unsigned */ }
+  const keyId = verifyPolicySignature(body, sig, loadPinnedKeys());
+  return { policy: JSON.parse(body), keyId };
+}
+
+/** Raw contents of the on-disk layers, in merge order (missing files are null). */
+export function readLocalLayers(): { master: DeepPartial<TradingPolicy>; defaults: DeepPartial<TradingPolicy>|null; local: DeepPartial<TradingPolicy>|null } {
+  return {
+    master: readJson(LOCAL_POLICY_PATH),
+    defaults: fs.existsSync(LOCAL_BOT_DEFAULTS) ? readJson(LOCAL_BOT_DEFAULTS) : null,
+    local: fs.existsSync(LOCAL_OVERRIDES) ? readJson(LOCAL_OVERRIDES) : null,
+  };
+}
+
+/** Upgrades one layer to CURRENT_SCHEMA_VERSION, noting the upgrade in the banner and logging the changelog. */
+function migrateLayer(layer: any, label: string, notes: string[]): any {
+  const m = migratePolicy(layer, label);
+  if (m.changelog.length) {
+    notes.push(`migrated     : ${label} ${m.from} -> ${m.to}`);
+    console.log(`[policy] migrated ${label}:\n  ${m.changelog.join("\n  ")}`);
+  }
+  return m.policy;
+}
 
-  let result = policy;
-  if (fs.existsSync(LOCAL_BOT_DEFAULTS)) result = deepMerge(result, JSON.parse(fs.readFileSync(LOCAL_BOT_DEFAULTS, "utf-8")));
-  if (fs.existsSync(LOCAL_OVERRIDES))    result = deepMerge(result, JSON.parse(fs.readFileSync(LOCAL_OVERRIDES, "utf-8")));
+/**
+ * Migrates every layer, then merges POLICY_DEFAULTS < base < config/config.json < config/config.local.json,
+ * validates (throws PolicyValidationError) and prints the banner of the policy that passed.
+ */
+function applyLocalLayers(base: DeepPartial<TradingPolicy>, source: "local"|"remote", notes: string[] = []): TradingPolicy {
+  let result = deepMerge(POLICY_DEFAULTS as TradingPolicy, migrateLayer(base, source === "remote" ? "remote policy" : "master_config.json", notes));
+  if (fs.existsSync(LOCAL_BOT_DEFAULTS)) result = deepMerge(result, migrateLayer(readJson(LOCAL_BOT_DEFAULTS), "config.json", notes));
+  if (fs.existsSync(LOCAL_OVERRIDES))    result = deepMerge(result, migrateLayer(readJson(LOCAL_OVERRIDES), "config.local.json", notes));
   const fp = sha256OfObject(result); const v = result.version || "unknown"; const sv = result.schemaVersion || "unknown";
-  validatePolicyShape(result, path.join(root,"src","policy","schema.json"));
-  printPolicyBanner("local", v, sv, fp);
+  assertValidPolicy(result, POLICY_SCHEMA_PATH);
+  printPolicyBanner(source, v, sv, fp, notes);
   return result;
 }
+
+export async function loadPolicy(): Promise<TradingPolicy> {
+  const url = process.env.POLICY_URL || "";
+  let policy: DeepPartial<TradingPolicy>|null = null; const notes: string[] = [];
+  if (url) {
+    try {
+      const remote = await fetchRemotePolicy(url);
+      policy = remote.policy; notes.push(`signed by    : ${remote.keyId}`);
+    } catch (e) {
+      const rejected = e instanceof PolicySignatureError;
+      const reason = `${rejected ? "rejected" : "unavailable"} (${e.message}), using local`;
+      notes.push(`remote       : ${reason}`);
+      Notifications.emit({ type:"policy", level: rejected ? "error" : "warn", title: rejected ? "Remote policy rejected" : "Remote policy unavailable", body: e.message, link: url });
+    }
+  }
+  const source = policy ? "remote" : "local";
+  if (!policy) policy = readJson(LOCAL_POLICY_PATH);
+  return applyLocalLayers(policy, source, notes);
+}
 export async function loadPolicyWithIntegrity(){ return loadPolicy(); }
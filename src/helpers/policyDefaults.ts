@@ -0,0 +1,154 @@
+import type { TradingPolicy } from "../types/policy.js";
+
+/**
+ * Built-in fallbacks for every policy key, merged underneath master_config.json (or the remote policy).
+ * Guards read the typed snapshot directly and never carry their own `??` fallbacks.
+ * Features default to disabled so an omitted section never turns a guard on by surprise.
+ */
+export const POLICY_DEFAULTS: Omit<TradingPolicy, "version" | "schemaVersion"> = {
+  execution: {
+    mintWait: {
+      enabled: true,
+      maxWaitSecPresets: { aggressive: 900, standard: 3600, marathon: 14400 },
+      autoPresetBySocialWave: { use: false, thresholds: { m5: 3, m15: 7 } },
+      pollMsDynamic: { min: 600, max: 1200 },
+      preEntryDoubleCheck: { minPoolAgeSec: 0, noLpReplenishWindowSec: 0 },
+    },
+    sell: {
+      unwrapWSOL: true,
+      slippageBpsByReason: {
+        trailingStop: [150, 200],
+        poolDrain: [150, 200],
+        spamExit: [150, 200],
+        autoScalp: [150, 200],
+        takeProfit: [150, 200],
+        stopLoss: [150, 200],
+        manual: [150, 200],
+      },
+      twap: {
+        slices: 5,
+        windowSec: 120,
+        maxImpactPercent: 5,
+        maxPauseSec: 300,
+        drainExitPercent: 20,
+      },
+    },
+  },
+  trading: {
+    useJito: false,
+    slippageAuto: { enabled: false, bpsMin: 80, bpsMax: 200, windowSec: 60 },
+    entryPulse: {
+      enabled: false,
+      firstSol: 0.1,
+      maxFirstSol: 0.3,
+      confirmSec: 15,
+    },
+    supervisor: { tickMs: 400, maxBatch: 100 },
+    exitRules: [
+      "trailingStop",
+      "stopLoss",
+      "autoScalp",
+      "takeProfit",
+      "poolDrain",
+      "spamExit",
+    ],
+    trailingStop: {
+      enabled: false,
+      percentRange: { chop: [8, 10], earlyPump: [12, 15] },
+      armAboveEntryPercent: 0,
+      wickGuard: { enabled: false, sigma: 3, windowSec: 60 },
+    },
+    autoScalp: {
+      enabled: false,
+      targetProfitPercent: { lowLP: 7, default: 7, highLP: 7 },
+      holdConfirmSec: 0,
+      partialExit: { min: 100, max: 100 },
+      comboTrailingBump: false,
+    },
+  },
+  patterns: {
+    autoExit: {
+      enabled: false,
+      sellTriggerPercent: [15, 25],
+      timeWindowSec: [3, 7],
+      minConsecutiveSamples: 1,
+    },
+  },
+  safety: {
+    spamWatcher: false,
+    spamThresholds: {
+      severityHigh: { m5: 3, m15: 7, buySpamKeywords: true },
+      antiBot: { maxNameChanges: 2, dedupByTextHash: true },
+      celebOverride: { enabled: false, autoTrade: false },
+    },
+    liquidityLimits: {
+      bandsUsd: {
+        low: { lpMaxUsd: 1000, maxBuySol: 0.3 },
+        medium: { lpMinUsd: 1000, lpMaxUsd: 10000, maxBuySol: 0.3 },
+        high: { lpMinUsd: 10000, maxBuySol: 0.3 },
+      },
+      slippageAbortPercent: 7,
+    },
+    contractGuards: {
+      lpLockMinPercent: 70,
+      taxMaxPercent: 10,
+      forbidFlags: ["mint", "freeze"],
+      topHolderMaxPercent: 20,
+      minHolders: 10,
+      testSellMicrolot: false,
+    },
+  },
+  blacklist: { enabled: false, file: "config/blacklist.json" },
+  wallet: {
+    roles: { funding: true, trading: true, cold: false },
+    tradingDailyLimitSol: 5,
+    jitoReserveSol: { min: 0.2, max: 0.5 },
+    autoSweep: { enabled: false, thresholdSol: 8, target: "funding" },
+  },
+  profiles: {
+    twitter: {
+      scanEveryMin: 5,
+      filters: { memeabilityMin: 0.6, freq: { m5: 3, m15: 7 }, stopwords: [] },
+      socialScore: {
+        weights: { text: 0.4, author: 0.3, freq: 0.2, celeb: 0.1 },
+        escalateAt: 0.6,
+      },
+    },
+    pump: {
+      poolAgeMaxMin: 60,
+      lpMinUsd: 2000,
+      vol5MinUsd: 5000,
+      txCount5MinMin: 10,
+      buySellMin: 1.8,
+    },
+    whales: {
+      winRateMin: 0.6,
+      pelMin: 1.5,
+      holdTimeMedianDaysMin: 1,
+      fastSellsMaxPercent: 20,
+    },
+    findToken: {
+      lpLockMinPercent: 70,
+      taxMaxPercent: 10,
+      forbidFlags: ["mint", "freeze"],
+      topHolderMaxPercent: 20,
+      minHolders: 10,
+    },
+    listings: {
+      ageDaysMax: 30,
+      dedupeBy: ["name", "url"],
+      needSocial: { freqM5: 3, sentimentMin: 0.7 },
+    },
+  },
+  risk: {
+    perTradeRiskPercent: 1.0,
+    targets: { x2: 0, x3: 0, fib: [] },
+    stopLoss: {
+      mode: "percent",
+      percentEarly: 20,
+      earlyWindowSec: 300,
+      atr: { barSec: 10, period: 14, multiplier: 2 },
+    },
+    cooldown: { lossStreak: 2, pauseMin: 45 },
+  },
+};
@@ -0,0 +1,52 @@
+
+/** Key-level diffing of policy layers. Paths are JSON pointers; arrays are compared as whole values. */
+export type PolicyLayerName = "builtin"|"master"|"defaults"|"local"|"remote";
+export interface PolicyLayer { name: PolicyLayerName; policy: any; }
+export interface KeyChange { path: string; old?: any; new?: any; }
+export interface PolicyDiff { added: KeyChange[]; removed: KeyChange[]; changed: KeyChange[]; }
+
+const escapePointer = (k: string) => k.replace(/~/g, "~0").replace(/\//g, "~1");
+
+export function flattenLeaves(obj: any, prefix = "", out = new Map<string, any>()): Map<string, any> {
+  if (obj && typeof obj === "object" && !Array.isArray(obj)) {
+    const keys = Object.keys(obj);
+    if (keys.length === 0 && prefix) out.set(prefix, {});
+    for (const k of keys) flattenLeaves(obj[k], `${prefix}/${escapePointer(k)}`, out);
+  } else if (prefix) {
+    out.set(prefix, obj);
+  }
+  return out;
+}
+
+const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+export function diffPolicies(from: any, to: any): PolicyDiff {
+  const a = flattenLeaves(from ?? {}), b = flattenLeaves(to ?? {});
+  const d: PolicyDiff = { added: [], removed: [], changed: [] };
+  for (const [p, v] of b) {
+    if (!a.has(p)) d.added.push({ path: p, new: v });
+    else if (!same(a.get(p), v)) d.changed.push({ path: p, old: a.get(p), new: v });
+  }
+  for (const [p, v] of a) if (!b.has(p)) d.removed.push({ path: p, old: v });
+  const byPath = (x: KeyChange, y: KeyChange) => x.path.localeCompare(y.path);
+  d.added.sort(byPath); d.removed.sort(byPath); d.changed.sort(byPath);
+  return d;
+}
+
+export const isEmptyDiff = (d: PolicyDiff) => !d.added.length && !d.removed.length && !d.changed.length;
+
+/** For every leaf of the merged policy, the last layer (in merge order) that set it. */
+export function provenance(layers: PolicyLayer[]): Map<string, { layer: PolicyLayerName; value: any }> {
+  const out = new Map<string, { layer: PolicyLayerName; value: any }>();
+  for (const l of layers) {
+    for (const [p, v] of flattenLeaves(l.policy ?? {})) {
+      const descendants = [...out.keys()].filter(k => k.startsWith(p + "/"));
+      // deepMerge merges an empty object into the existing subtree, so it changes nothing
+      if (descendants.length && v && typeof v === "object" && !Array.isArray(v)) continue;
+      descendants.forEach(k => out.delete(k));
+      for (const k of [...out.keys()]) if (p.startsWith(k + "/")) out.delete(k);
+      out.set(p, { layer: l.name, value: v });
+    }
+  }
+  return new Map([...out.entries()].sort(([x], [y]) => x.localeCompare(y)));
+}
@@ -1,16 +1,22 @@
 
 import crypto from "crypto";
+function canonical(v: any): any {
+  if (Array.isArray(v)) return v.map(canonical);
+  if (v && typeof v === "object") return Object.fromEntries(Object.keys(v).sort().map(k => [k, canonical(v[k])]));
+  return v;
+}
 export function sha256OfObject(obj: any): string {
-  const json = JSON.stringify(obj, Object.keys(obj).sort());
+  const json = JSON.stringify(canonical(obj));
   return crypto.createHash("sha256").update(json).digest("hex");
 }
-export function printPolicyBanner(source: "local"|"remote", version: string, schemaVersion: string, fingerprint: string){
+export function printPolicyBanner(source: "local"|"remote", version: string, schemaVersion: string, fingerprint: string, notes: string[] = []){
   console.log([
     "================ POLICY =================",
     `source       : ${source}`,
     `version      : ${version}`,
     `schema       : ${schemaVersion}`,
     `fingerprint  : ${fingerprint}`,
+    ...notes,
     "========================================="
   ].join("\n"));
 }
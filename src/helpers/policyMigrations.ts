@@ -0,0 +1,60 @@
+
+/**
+ * Step-by-step schemaVersion upgrades for policy layers (master, remote, config.json, config.local.json).
+ * A layer without schemaVersion predates versioning and is treated as "0".
+ * Each step must tolerate partial objects: override layers only carry the keys they change.
+ */
+export interface PolicyMigration {
+  from: number;
+  to: number;
+  description: string;
+  up(policy: any, log: (change: string) => void): any;
+}
+
+export class PolicyMigrationError extends Error {
+  constructor(message: string) { super(message); this.name = "PolicyMigrationError"; }
+}
+
+const MIGRATIONS: PolicyMigration[] = [
+  {
+    from: 0, to: 1,
+    description: "fixed execution.mintWait.pollMs becomes execution.mintWait.pollMsDynamic {min,max}",
+    up(p, log) {
+      const mw = p.execution?.mintWait;
+      if (mw && typeof mw.pollMs === "number") {
+        mw.pollMsDynamic = { min: mw.pollMs, max: Math.max(mw.pollMs, mw.pollMsDynamic?.max ?? mw.pollMs * 2) };
+        delete mw.pollMs;
+        log(`/execution/mintWait/pollMs -> /execution/mintWait/pollMsDynamic ${JSON.stringify(mw.pollMsDynamic)}`);
+      }
+      return p;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.reduce((v, m) => Math.max(v, m.to), 0);
+
+export function schemaVersionOf(policy: any): number {
+  const raw = policy?.schemaVersion;
+  if (raw === undefined || raw === null || raw === "") return 0;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) throw new PolicyMigrationError(`Unrecognised schemaVersion ${JSON.stringify(raw)}`);
+  return n;
+}
+
+export interface MigrationResult { policy: any; from: number; to: number; changelog: string[]; }
+
+/** Returns a migrated copy of `policy` at CURRENT_SCHEMA_VERSION; the input is not modified. */
+export function migratePolicy(policy: any, label = "policy"): MigrationResult {
+  const from = schemaVersionOf(policy);
+  if (from > CURRENT_SCHEMA_VERSION) throw new PolicyMigrationError(`${label} has schemaVersion ${from}, newer than supported ${CURRENT_SCHEMA_VERSION}`);
+  let out = JSON.parse(JSON.stringify(policy ?? {}));
+  const changelog: string[] = [];
+  for (let v = from; v < CURRENT_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS.find(m => m.from === v);
+    if (!step) throw new PolicyMigrationError(`No migration registered from schemaVersion ${v}`);
+    changelog.push(`[${step.from} -> ${step.to}] ${step.description}`);
+    out = step.up(out, c => changelog.push(`    ${c}`));
+    out.schemaVersion = String(step.to);
+  }
+  return { policy: out, from, to: CURRENT_SCHEMA_VERSION, changelog };
+}
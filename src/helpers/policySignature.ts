@@ -0,0 +1,52 @@
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import bs58 from "bs58";
+
+/**
+ * Detached ed25519 signatures for remote policies.
+ * The signature is base64 over the exact policy bytes served at POLICY_URL and lives at
+ * POLICY_SIG_URL (default `${POLICY_URL}.sig`). Trusted keys are pinned in
+ * config/policy_keys.json and/or POLICY_PUBKEYS (comma separated, base58 raw 32-byte keys).
+ */
+export const POLICY_KEYS_PATH = path.join(process.cwd(), "config", "policy_keys.json");
+
+export interface PinnedKey { id: string; publicKey: string; }
+
+export class PolicySignatureError extends Error {
+  constructor(message: string) { super(message); this.name = "PolicySignatureError"; }
+}
+
+export function signatureUrlFor(policyUrl: string): string {
+  return process.env.POLICY_SIG_URL || `${policyUrl}.sig`;
+}
+
+export function loadPinnedKeys(): PinnedKey[] {
+  const keys: PinnedKey[] = [];
+  if (fs.existsSync(POLICY_KEYS_PATH)) keys.push(...(JSON.parse(fs.readFileSync(POLICY_KEYS_PATH, "utf-8")).keys ?? []));
+  (process.env.POLICY_PUBKEYS || "").split(",").map(s => s.trim()).filter(Boolean)
+    .forEach((k, i) => keys.push({ id: `env#${i}`, publicKey: k }));
+  return keys;
+}
+
+function toKeyObject(base58Key: string): crypto.KeyObject {
+  const raw = Buffer.from(bs58.decode(base58Key));
+  if (raw.length !== 32) throw new Error(`expected 32-byte ed25519 key, got ${raw.length} bytes`);
+  return crypto.createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: raw.toString("base64url") }, format: "jwk" });
+}
+
+/** Returns the id of the pinned key that signed `body`, or throws PolicySignatureError with the reason. */
+export function verifyPolicySignature(body: string, signatureB64: string|null, keys: PinnedKey[]): string {
+  if (!keys.length) throw new PolicySignatureError("no pinned policy keys configured (config/policy_keys.json or POLICY_PUBKEYS)");
+  if (!signatureB64 || !signatureB64.trim()) throw new PolicySignatureError("policy is unsigned");
+  const sig = Buffer.from(signatureB64.trim(), "base64");
+  if (sig.length !== 64) throw new PolicySignatureError(`malformed signature (${sig.length} bytes, expected 64)`);
+  const data = Buffer.from(body, "utf-8");
+  for (const k of keys) {
+    let keyObj: crypto.KeyObject;
+    try { keyObj = toKeyObject(k.publicKey); } catch (e) { console.error(`[policy] skipping pinned key ${k.id}: ${e.message}`); continue; }
+    if (crypto.verify(null, data, keyObj, sig)) return k.id;
+  }
+  throw new PolicySignatureError(`signature does not match any of ${keys.length} pinned key(s)`);
+}
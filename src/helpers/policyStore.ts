@@ -0,0 +1,83 @@
+
+import fs from "fs";
+import { loadPolicy, LOCAL_OVERRIDES } from "./policyClient.js";
+import { sha256OfObject } from "./policyIntegrity.js";
+import type { TradingPolicy } from "../types/policy.js";
+
+export interface PolicyChange { fingerprint: string; previousFingerprint: string|null; policy: TradingPolicy; reason: "init"|"file"|"poll"|"override"; }
+type ChangeListener = (c: PolicyChange) => void;
+
+function deepFreeze<T>(o: T): T {
+  if (o && typeof o === "object" && !Object.isFrozen(o)) {
+    Object.freeze(o);
+    for (const v of Object.values(o as any)) deepFreeze(v);
+  }
+  return o;
+}
+
+/**
+ * Holds the merged trading policy as an immutable snapshot.
+ * init() loads it once (remote + local layers) and rejects when that fails, get() serves it synchronously,
+ * watch() hot-reloads on config.local.json edits and on the POLICY_URL poll interval; a failed hot reload keeps the previous snapshot.
+ */
+class Store {
+  private snapshot: TradingPolicy|null = null;
+  private fingerprint: string|null = null;
+  private ls: ChangeListener[] = [];
+  private pollTimer: NodeJS.Timeout|null = null;
+  private watching = false;
+  private reloading: Promise<void>|null = null;
+
+  async init(){ await this.reload("init"); }
+
+  get(): TradingPolicy {
+    if (!this.snapshot) throw new Error("Policy not loaded: await PolicyStore.init() first");
+    return this.snapshot;
+  }
+
+  getFingerprint(){ return this.fingerprint; }
+
+  on(l: ChangeListener){ this.ls.push(l); }
+  off(l: ChangeListener){ this.ls = this.ls.filter(x => x !== l); }
+
+  reload(reason: PolicyChange["reason"]): Promise<void> {
+    if (this.reloading) return this.reloading;
+    this.reloading = loadPolicy()
+      .then(p => this.apply(p, reason))
+      .catch(e => {
+        if (reason === "init") throw e;
+        console.error(`[policy] reload (${reason}) failed, keeping ${this.fingerprint ?? "no"} snapshot:`, e.message);
+      })
+      .finally(() => { this.reloading = null; });
+    return this.reloading;
+  }
+
+  watch(pollSec = Number(process.env.POLICY_POLL_SEC || "0")){
+    if (this.watching) return; this.watching = true;
+    fs.watchFile(LOCAL_OVERRIDES, { interval: 1000 }, () => { void this.reload("file"); }).unref();
+    if (process.env.POLICY_URL && pollSec > 0) {
+      this.pollTimer = setInterval(() => { void this.reload("poll"); }, pollSec * 1000);
+      this.pollTimer.unref();
+    }
+  }
+
+  /** Swaps in an already merged and validated policy (backtests replaying policy variants). */
+  use(policy: TradingPolicy){ this.apply(policy, "override"); }
+
+  unwatch(){
+    fs.unwatchFile(LOCAL_OVERRIDES);
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null; this.watching = false;
+  }
+
+  private apply(policy: TradingPolicy, reason: PolicyChange["reason"]){
+    const fp = sha256OfObject(policy);
+    if (fp === this.fingerprint) return;
+    const previousFingerprint = this.fingerprint;
+    this.snapshot = deepFreeze(policy); this.fingerprint = fp;
+    const change: PolicyChange = { fingerprint: fp, previousFingerprint, policy: this.snapshot, reason };
+    this.ls.forEach(l => l(change));
+  }
+}
+
+export const PolicyStore = new Store();
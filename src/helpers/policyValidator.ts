@@ -1,9 +1,113 @@
 
 import fs from "fs";
-type Schema = { required?: string[], properties?: Record<string, any> };
-export function validatePolicyShape(policy: any, schemaPath: string): {ok: boolean; errors: string[]} {
-  const schema: Schema = JSON.parse(fs.readFileSync(schemaPath,"utf-8"));
-  const errors: string[] = [];
-  if (schema.required) for (const key of schema.required) if (!(key in policy)) errors.push(`Missing required field: ${key}`);
+
+/**
+ * Minimal JSON Schema (2020-12 subset) validator for the trading policy.
+ * Supports: $ref (local #/...), type, enum, const, properties, required, additionalProperties,
+ * patternProperties, items, prefixItems, minItems, maxItems, minimum, maximum,
+ * exclusiveMinimum, exclusiveMaximum, minLength.
+ */
+type Schema = boolean | {
+  $ref?: string; $defs?: Record<string, Schema>;
+  type?: string | string[]; enum?: any[]; const?: any;
+  properties?: Record<string, Schema>; required?: string[];
+  additionalProperties?: Schema; patternProperties?: Record<string, Schema>;
+  items?: Schema; prefixItems?: Schema[]; minItems?: number; maxItems?: number;
+  minimum?: number; maximum?: number; exclusiveMinimum?: number; exclusiveMaximum?: number;
+  minLength?: number;
+};
+export interface PolicyIssue { path: string; message: string; }
+
+export class PolicyValidationError extends Error {
+  constructor(public readonly issues: PolicyIssue[]) {
+    super(`Invalid trading policy (${issues.length} issue${issues.length===1?"":"s"}):\n` + issues.map(i => `  ${i.path || "/"}: ${i.message}`).join("\n"));
+    this.name = "PolicyValidationError";
+  }
+}
+
+const escapePointer = (k: string) => k.replace(/~/g, "~0").replace(/\//g, "~1");
+
+function typeOf(v: any): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number") return Number.isInteger(v) ? "integer" : "number";
+  return typeof v;
+}
+function matchesType(v: any, t: string): boolean {
+  const actual = typeOf(v);
+  return actual === t || (t === "number" && actual === "integer");
+}
+
+function resolveRef(root: Schema, ref: string): Schema {
+  if (!ref.startsWith("#/")) throw new Error(`Unsupported $ref: ${ref}`);
+  let node: any = root;
+  for (const part of ref.slice(2).split("/")) node = node?.[part.replace(/~1/g, "/").replace(/~0/g, "~")];
+  if (node === undefined) throw new Error(`Unresolvable $ref: ${ref}`);
+  return node;
+}
+
+function check(v: any, s: Schema, at: string, root: Schema, out: PolicyIssue[]) {
+  if (s === true) return;
+  if (s === false) { out.push({ path: at, message: "is not allowed" }); return; }
+  if (s.$ref) { check(v, resolveRef(root, s.$ref), at, root, out); }
+
+  if (s.type) {
+    const types = Array.isArray(s.type) ? s.type : [s.type];
+    if (!types.some(t => matchesType(v, t))) { out.push({ path: at, message: `expected ${types.join("|")}, got ${typeOf(v)}` }); return; }
+  }
+  if (s.enum && !s.enum.some(e => e === v)) out.push({ path: at, message: `must be one of ${s.enum.map(e => JSON.stringify(e)).join(", ")}, got ${JSON.stringify(v)}` });
+  if ("const" in s && s.const !== v) out.push({ path: at, message: `must equal ${JSON.stringify(s.const)}` });
+
+  if (typeof v === "number") {
+    if (s.minimum !== undefined && v < s.minimum) out.push({ path: at, message: `must be >= ${s.minimum}, got ${v}` });
+    if (s.maximum !== undefined && v > s.maximum) out.push({ path: at, message: `must be <= ${s.maximum}, got ${v}` });
+    if (s.exclusiveMinimum !== undefined && v <= s.exclusiveMinimum) out.push({ path: at, message: `must be > ${s.exclusiveMinimum}, got ${v}` });
+    if (s.exclusiveMaximum !== undefined && v >= s.exclusiveMaximum) out.push({ path: at, message: `must be < ${s.exclusiveMaximum}, got ${v}` });
+  }
+  if (typeof v === "string" && s.minLength !== undefined && v.length < s.minLength) out.push({ path: at, message: `must have length >= ${s.minLength}` });
+
+  if (Array.isArray(v)) {
+    if (s.minItems !== undefined && v.length < s.minItems) out.push({ path: at, message: `must have at least ${s.minItems} items, got ${v.length}` });
+    if (s.maxItems !== undefined && v.length > s.maxItems) out.push({ path: at, message: `must have at most ${s.maxItems} items, got ${v.length}` });
+    const prefix = s.prefixItems ?? [];
+    v.forEach((item, i) => {
+      const itemSchema = i < prefix.length ? prefix[i] : s.items;
+      if (itemSchema === undefined) return;
+      if (itemSchema === false) out.push({ path: `${at}/${i}`, message: `unexpected item (at most ${prefix.length} allowed)` });
+      else check(item, itemSchema, `${at}/${i}`, root, out);
+    });
+  }
+
+  if (typeOf(v) === "object") {
+    for (const key of s.required ?? []) if (!(key in v)) out.push({ path: `${at}/${escapePointer(key)}`, message: "is required" });
+    for (const [key, val] of Object.entries(v)) {
+      const p = `${at}/${escapePointer(key)}`;
+      let matched = false;
+      if (s.properties && key in s.properties) { matched = true; check(val, s.properties[key], p, root, out); }
+      for (const [pattern, ps] of Object.entries(s.patternProperties ?? {})) {
+        if (new RegExp(pattern).test(key)) { matched = true; check(val, ps, p, root, out); }
+      }
+      if (!matched && s.additionalProperties !== undefined) {
+        if (s.additionalProperties === false) out.push({ path: p, message: "unknown key (additionalProperties)" });
+        else check(val, s.additionalProperties, p, root, out);
+      }
+    }
+  }
+}
+
+export function validateAgainstSchema(value: any, schema: Schema): {ok: boolean; errors: PolicyIssue[]} {
+  const errors: PolicyIssue[] = [];
+  check(value, schema, "", schema, errors);
   return { ok: errors.length===0, errors };
 }
+
+export function validatePolicyShape(policy: any, schemaPath: string): {ok: boolean; errors: PolicyIssue[]} {
+  const schema: Schema = JSON.parse(fs.readFileSync(schemaPath,"utf-8"));
+  return validateAgainstSchema(policy, schema);
+}
+
+/** Throws PolicyValidationError when the policy does not satisfy the schema. */
+export function assertValidPolicy(policy: any, schemaPath: string){
+  const res = validatePolicyShape(policy, schemaPath);
+  if (!res.ok) throw new PolicyValidationError(res.errors);
+}
@@ -1,3 +1,4 @@
 
-import { loadPolicy } from "./policyClient.js";
-export function loadConfig(): any { return loadPolicy(); }
+import { PolicyStore } from "./policyStore.js";
+import type { TradingPolicy } from "../types/policy.js";
+export function loadConfig(): TradingPolicy { return PolicyStore.get(); }
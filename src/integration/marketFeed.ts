@@ -0,0 +1,59 @@
+import { jupiter_prices, SOL_MINT } from "../jupiter/fetch-price.js";
+import type { SupervisorFeed } from "../trading/positionSupervisor.js";
+
+const DEXSCREENER_TOKENS = "https://api.dexscreener.com/tokens/v1/solana";
+const DEXSCREENER_MAX_TOKENS = 30; // per request
+
+type PoolSide = { solReserve: number; liquidityUsd: number };
+
+// Deepest SOL-quoted pool per mint (DexScreener); mints without one are omitted
+async function solPools(mints: string[]): Promise<Record<string, PoolSide>> {
+  const out: Record<string, PoolSide> = {};
+  const unique = [...new Set(mints)];
+  for (let i = 0; i < unique.length; i += DEXSCREENER_MAX_TOKENS) {
+    const chunk = unique.slice(i, i + DEXSCREENER_MAX_TOKENS);
+    const response = await fetch(`${DEXSCREENER_TOKENS}/${chunk.join(",")}`);
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `DexScreener pool fetch failed: ${response.status} - ${errorText}`
+      );
+    }
+    const pairs: any[] = await response.json();
+    for (const p of Array.isArray(pairs) ? pairs : []) {
+      const mint = p?.baseToken?.address;
+      const solReserve = Number(p?.liquidity?.quote);
+      if (!chunk.includes(mint) || p?.quoteToken?.address !== SOL_MINT)
+        continue;
+      if (!(solReserve > 0) || solReserve <= (out[mint]?.solReserve ?? 0))
+        continue;
+      out[mint] = { solReserve, liquidityUsd: Number(p.liquidity.usd) || 0 };
+    }
+  }
+  return out;
+}
+
+/** Quote-side (SOL) reserve of each mint's deepest pool. */
+export async function solReserves(
+  mints: string[]
+): Promise<Record<string, number>> {
+  const pools = await solPools(mints);
+  return Object.fromEntries(
+    Object.entries(pools).map(([m, p]) => [m, p.solReserve])
+  );
+}
+
+/** SOL per token; 0 when Jupiter has no price (the guards treat that as no data). */
+export async function livePrice(mint: string): Promise<number> {
+  return (await jupiter_prices([mint]))[mint] ?? 0;
+}
+
+export async function liquidityUsd(mint: string): Promise<number> {
+  return (await solPools([mint]))[mint]?.liquidityUsd ?? 0;
+}
+
+/** Batched market data for the position supervisor: Jupiter prices, DexScreener SOL reserves. */
+export const marketFeed: SupervisorFeed = {
+  getPrices: (mints) => jupiter_prices(mints),
+  getReserves: solReserves,
+};
@@ -31,7 +31,7 @@ export async function jito_buy(
 
     // 2. Get Jupiter quote
     const amountInLamports = Math.floor(solAmount * 1e9);
-    const slippage = slippageBps ? Math.floor(slippageBps * 100) : 150;
+    const slippage = slippageBps ? Math.round(slippageBps) : 150;
 
     const quoteUrl =
       `https://quote-api.jup.ag/v6/quote?` +
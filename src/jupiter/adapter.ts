@@ -1,10 +1,11 @@
 import { Connection, Keypair, VersionedTransaction } from "@solana/web3.js";
 import bs58 from "bs58";
+import { loadConfig } from "../helpers/superConfig.js";
 
 export async function jupiter_buy(
   tokenMint: string,
   solAmount: number,
-  slippageBps?: number,
+  slippageBps: number = 150,
   priorityFee?: number
 ): Promise<{ txid: string; price?: number }> {
   try {
@@ -137,9 +138,76 @@ export async function jupiter_buy(
   }
 }
 
+// Quote-only SOL → TOKEN (no transaction); priceImpactPct from Jupiter is a fraction
+export async function jupiter_buy_quote(
+  tokenMint: string,
+  solAmount: number,
+  slippageBps: number = 150
+): Promise<{ tokensOut: number; priceImpactPercent: number }> {
+  const quoteUrl =
+    `https://quote-api.jup.ag/v6/quote?` +
+    `inputMint=So11111111111111111111111111111111111111112&` +
+    `outputMint=${tokenMint}&` +
+    `amount=${Math.floor(solAmount * 1e9)}&` +
+    `slippageBps=${slippageBps}`;
+
+  const quoteResponse = await fetch(quoteUrl);
+  if (!quoteResponse.ok) {
+    const errorText = await quoteResponse.text();
+    throw new Error(
+      `Jupiter quote failed: ${quoteResponse.status} - ${errorText}`
+    );
+  }
+
+  const quote = await quoteResponse.json();
+  if (!quote.outAmount) {
+    throw new Error(`No route found for ${tokenMint}`);
+  }
+
+  return {
+    tokensOut: parseInt(quote.outAmount),
+    priceImpactPercent: Number(quote.priceImpactPct || 0) * 100,
+  };
+}
+
+// Quote-only TOKEN → SOL (no transaction); priceImpactPct from Jupiter is a fraction
+export async function jupiter_sell_quote(
+  tokenMint: string,
+  amountTokens: number,
+  slippageBps: number = 300
+): Promise<{ solOut: number; priceImpactPercent: number }> {
+  const quoteUrl =
+    `https://quote-api.jup.ag/v6/quote?` +
+    `inputMint=${tokenMint}&` +
+    `outputMint=So11111111111111111111111111111111111111112&` +
+    `amount=${Math.floor(amountTokens)}&` +
+    `slippageBps=${slippageBps}`;
+
+  const quoteResponse = await fetch(quoteUrl);
+  if (!quoteResponse.ok) {
+    const errorText = await quoteResponse.text();
+    throw new Error(
+      `Jupiter sell quote failed: ${quoteResponse.status} - ${errorText}`
+    );
+  }
+
+  const quote = await quoteResponse.json();
+  if (!quote.outAmount) {
+    throw new Error(`No sell route found for ${tokenMint}`);
+  }
+
+  return {
+    solOut: parseInt(quote.outAmount) / 1e9,
+    priceImpactPercent: Number(quote.priceImpactPct || 0) * 100,
+  };
+}
+
+// unwrapWSOL: have Jupiter close the temporary WSOL account so proceeds land as native SOL
 export async function jupiter_sell(
   tokenMint: string,
-  amountTokens: number
+  amountTokens: number,
+  slippageBps: number = 300,
+  unwrapWSOL: boolean = loadConfig().execution.sell.unwrapWSOL
 ): Promise<{ txid: string; solReceived?: number }> {
   try {
     console.log(`💰 Jupiter sell: ${amountTokens} tokens of ${tokenMint}`);
@@ -161,7 +229,7 @@ export async function jupiter_sell(
       `inputMint=${tokenMint}&` + // Input: Your token
       `outputMint=So11111111111111111111111111111111111111112&` + // Output: SOL
       `amount=${Math.floor(amountTokens)}&` + // Amount of tokens to sell
-      `slippageBps=300`; // Fixed 3% slippage for sells
+      `slippageBps=${slippageBps}`; // Defaults to 3% slippage for sells
 
     console.log(`📊 Getting sell quote from Jupiter...`);
     const quoteResponse = await fetch(quoteUrl);
@@ -191,7 +259,7 @@ export async function jupiter_sell(
       body: JSON.stringify({
         quoteResponse: quote,
         userPublicKey: wallet.publicKey.toString(),
-        wrapAndUnwrapSol: true,
+        wrapAndUnwrapSol: unwrapWSOL,
         dynamicComputeUnitLimit: true,
         prioritizationFeeLamports: 100000, // Fixed priority fee for sells
       }),
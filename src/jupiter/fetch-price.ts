@@ -1 +1,30 @@
-// TODO: implement Jupiter fetch-price.ts
+export const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+// Batch price lookup (SOL per token by default); mints without a price are omitted
+export async function jupiter_prices(
+  mints: string[],
+  vsToken: string = SOL_MINT
+): Promise<Record<string, number>> {
+  if (!mints.length) return {};
+
+  const url =
+    `https://api.jup.ag/price/v2?` +
+    `ids=${[...new Set(mints)].join(",")}&` +
+    `vsToken=${vsToken}`;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `Jupiter price fetch failed: ${response.status} - ${errorText}`
+    );
+  }
+
+  const { data } = await response.json();
+  const prices: Record<string, number> = {};
+  for (const mint of mints) {
+    const price = Number(data?.[mint]?.price);
+    if (price > 0) prices[mint] = price;
+  }
+  return prices;
+}
@@ -1 +1,200 @@
-// TODO: implement Jupiter limit_order.ts
+import { jupiter_buy, jupiter_sell } from "./adapter.js";
+import { jupiter_prices } from "./fetch-price.js";
+import { Notifications } from "../notifications/bus.js";
+import { limitOrderRepo } from "../database/repositories/LimitOrderRepository.js";
+import { transactionRepo } from "../database/repositories/TransactionRepository.js";
+import {
+  CreateLimitOrderRequest,
+  LimitOrderEntity,
+} from "../database/entities/LimitOrder.js";
+import { tradingWalletAddress } from "../wallet/wallet.js";
+import {
+  CooldownActiveError,
+  assertTradingAllowed,
+} from "../safety/cooldown.js";
+import {
+  describeSlippage,
+  recordPriceSample,
+  resolveSlippageBps,
+} from "../trading/slippageOracle.js";
+
+const DEFAULT_POLL_MS = 2000;
+
+// Validates and stores a resting order; the watcher picks it up on its next tick
+export async function placeLimitOrder(
+  req: CreateLimitOrderRequest
+): Promise<LimitOrderEntity> {
+  if (!req.token_mint || req.token_mint.length < 32) {
+    throw new Error("Invalid mint address");
+  }
+  if (req.side !== "BUY" && req.side !== "SELL") {
+    throw new Error("side must be BUY or SELL");
+  }
+  if (!(req.limit_price > 0)) {
+    throw new Error("limit_price must be > 0 (SOL per token)");
+  }
+  if (req.side === "BUY" && !(req.sol_amount > 0)) {
+    throw new Error("BUY orders need sol_amount > 0");
+  }
+  if (req.side === "SELL" && !(req.token_amount > 0)) {
+    throw new Error("SELL orders need token_amount > 0");
+  }
+  if (req.expires_at && req.expires_at.getTime() <= Date.now()) {
+    throw new Error("expires_at is in the past");
+  }
+  return limitOrderRepo.create(req);
+}
+
+export async function cancelLimitOrder(
+  id: number
+): Promise<LimitOrderEntity | null> {
+  const order = await limitOrderRepo.transition(id, ["OPEN"], "CANCELLED");
+  if (order) {
+    Notifications.emit({
+      type: "order",
+      level: "info",
+      title: `LIMIT #${id} cancelled`,
+      body: `${order.side} ${order.token_mint} @ ${order.limit_price}`,
+    });
+  }
+  return order;
+}
+
+export function isTriggered(order: LimitOrderEntity, price: number): boolean {
+  return order.side === "BUY"
+    ? price <= order.limit_price
+    : price >= order.limit_price;
+}
+
+/**
+ * Polls prices for every OPEN order's mint (one batched request per tick), expires stale orders and fills
+ * triggered ones through jupiter_buy/jupiter_sell. Orders are claimed (OPEN -> FILLING) before the swap so a
+ * concurrent cancel or a second watcher can never fill twice. BUY fills respect the loss-streak cooldown.
+ */
+export class LimitOrderWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private getPrices: (
+      mints: string[]
+    ) => Promise<Record<string, number>> = jupiter_prices
+  ) {}
+
+  start(
+    pollMs: number = Number(process.env.LIMIT_ORDER_POLL_MS) || DEFAULT_POLL_MS
+  ) {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), pollMs);
+    console.log(`📒 Limit order watcher polling every ${pollMs}ms`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      for (const order of await limitOrderRepo.expireDue()) {
+        Notifications.emit({
+          type: "order",
+          level: "info",
+          title: `LIMIT #${order.id} expired`,
+          body: `${order.side} ${order.token_mint} @ ${order.limit_price}`,
+        });
+      }
+
+      const open = await limitOrderRepo.list("OPEN", 500);
+      if (!open.length) return;
+      const prices = await this.getPrices(open.map((o) => o.token_mint));
+      for (const [mint, price] of Object.entries(prices)) {
+        recordPriceSample(mint, price);
+      }
+
+      for (const order of open) {
+        const price = prices[order.token_mint];
+        if (price && isTriggered(order, price)) await this.fill(order, price);
+      }
+    } catch (error) {
+      console.error(`❌ Limit order tick failed:`, error.message);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async fill(order: LimitOrderEntity, price: number) {
+    if (order.side === "BUY") {
+      try {
+        await assertTradingAllowed(`limit order #${order.id}`);
+      } catch (error) {
+        if (error instanceof CooldownActiveError) return; // stays OPEN until the pause ends
+        throw error;
+      }
+    }
+    const claimed = await limitOrderRepo.claim(order.id);
+    if (!claimed) return;
+
+    const slippage = resolveSlippageBps(order.token_mint, {
+      requestedBps: order.slippage_bps,
+    });
+    try {
+      const result =
+        order.side === "BUY"
+          ? await jupiter_buy(order.token_mint, order.sol_amount, slippage.bps)
+          : await jupiter_sell(
+              order.token_mint,
+              order.token_amount,
+              slippage.bps
+            );
+      await limitOrderRepo.markFilled(order.id, price, result.txid);
+
+      const solAmount =
+        order.side === "BUY"
+          ? order.sol_amount
+          : (result as { solReceived?: number }).solReceived || 0;
+      await transactionRepo
+        .createSuccessful(
+          result.txid,
+          tradingWalletAddress(),
+          order.token_mint,
+          order.side,
+          {
+            sol_amount: solAmount,
+            token_amount: Math.floor(
+              order.side === "BUY"
+                ? order.sol_amount / price
+                : order.token_amount
+            ).toString(),
+            price_per_token: price,
+            slippage_percent: slippage.bps / 100,
+            total_cost: solAmount,
+            on_chain_data: { limitOrderId: order.id },
+          }
+        )
+        .catch(() => {
+          // logged by repo; the swap itself succeeded
+        });
+
+      Notifications.emit({
+        type: "order",
+        level: "success",
+        title: `LIMIT #${order.id} FILLED ${order.side} ${order.token_mint}`,
+        body: `price ${price} (limit ${order.limit_price}), slippage ${describeSlippage(slippage)}`,
+        link: result.txid,
+      });
+    } catch (error) {
+      await limitOrderRepo
+        .transition(order.id, ["FILLING"], "FAILED", error.message)
+        .catch(() => {});
+      Notifications.emit({
+        type: "order",
+        level: "error",
+        title: `LIMIT #${order.id} fill failed`,
+        body: error.message,
+      });
+    }
+  }
+}
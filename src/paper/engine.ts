@@ -0,0 +1,284 @@
+import crypto from "crypto";
+import { jupiter_buy_quote, jupiter_sell_quote } from "../jupiter/adapter.js";
+import { paperTradeRepo } from "../database/repositories/PaperTradeRepository.js";
+import {
+  PaperFillSource,
+  PaperTradeEntity,
+} from "../database/entities/PaperTrade.js";
+
+const DEFAULT_START_SOL = 10;
+
+export interface PaperFill {
+  txid: string;
+  mint: string;
+  side: "BUY" | "SELL";
+  sol: number;
+  tokens: number;
+  pricePerToken: number; // SOL per token
+  impactPercent: number;
+  source: PaperFillSource;
+  solBalance: number; // virtual ledger after the fill
+  tokenBalance: number;
+}
+
+type Pool = { sol: number; tokens: number };
+type Ledger = { sol: number; tokens: Map<string, number> };
+
+// Virtual pools seeded from on-chain reserves; our own paper fills move them like real swaps would
+const pools = new Map<string, Pool>();
+let ledger: Promise<Ledger> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+// Global switch is PAPER_TRADING=true; a per-request flag overrides it either way
+export function isPaperMode(override?: boolean): boolean {
+  return override ?? /^(1|true|yes)$/i.test(process.env.PAPER_TRADING || "");
+}
+
+export function paperTag(paper: boolean): string {
+  return paper ? "[PAPER] " : "";
+}
+
+export function seedPaperPool(
+  mint: string,
+  solReserve?: number,
+  tokenReserve?: number
+) {
+  if (solReserve > 0 && tokenReserve > 0) {
+    pools.set(mint, { sol: solReserve, tokens: tokenReserve });
+  }
+}
+
+// SOL side of the virtual pool (0 when unseeded); paper TWAPs watch it for drains
+export function paperPoolReserve(mint: string): number {
+  return pools.get(mint)?.sol ?? 0;
+}
+
+// Balances resume from the last paper_trades row; without a DB the ledger lives in memory
+function loadLedger(): Promise<Ledger> {
+  if (!ledger) {
+    const startSol = Number(process.env.PAPER_START_SOL) || DEFAULT_START_SOL;
+    ledger = paperTradeRepo
+      .getLedger()
+      .then((l) => ({
+        sol: l.sol ?? startSol,
+        tokens: new Map(Object.entries(l.tokens)),
+      }))
+      .catch(() => ({ sol: startSol, tokens: new Map<string, number>() }));
+  }
+  return ledger;
+}
+
+export async function paperBalances(): Promise<{
+  sol: number;
+  tokens: Record<string, number>;
+}> {
+  const l = await loadLedger();
+  return { sol: l.sol, tokens: Object.fromEntries(l.tokens) };
+}
+
+export async function paperSolBalance(): Promise<number> {
+  return (await loadLedger()).sol;
+}
+
+export async function paperTokenBalance(mint: string): Promise<number> {
+  return (await loadLedger()).tokens.get(mint) ?? 0;
+}
+
+// Constant product x * y = k, same model as the API's calculatePriceImpact (also used by the backtester)
+export function constantProductSwap(
+  reserveIn: number,
+  reserveOut: number,
+  amountIn: number
+) {
+  const out = reserveOut - (reserveIn * reserveOut) / (reserveIn + amountIn);
+  const priceBefore = reserveIn / reserveOut;
+  const priceAfter = (reserveIn + amountIn) / (reserveOut - out);
+  return {
+    out,
+    impactPercent: ((priceAfter - priceBefore) / priceBefore) * 100,
+  };
+}
+
+async function quoteBuy(mint: string, sol: number) {
+  const pool = pools.get(mint);
+  if (pool) {
+    const { out, impactPercent } = constantProductSwap(
+      pool.sol,
+      pool.tokens,
+      sol
+    );
+    return { tokens: out, impactPercent, source: "reserves" as const };
+  }
+  const q = await jupiter_buy_quote(mint, sol);
+  return {
+    tokens: q.tokensOut,
+    impactPercent: q.priceImpactPercent,
+    source: "quote" as const,
+  };
+}
+
+async function quoteSell(mint: string, tokens: number) {
+  const pool = pools.get(mint);
+  if (pool) {
+    const { out, impactPercent } = constantProductSwap(
+      pool.tokens,
+      pool.sol,
+      tokens
+    );
+    return { sol: out, impactPercent, source: "reserves" as const };
+  }
+  const q = await jupiter_sell_quote(mint, tokens);
+  return {
+    sol: q.solOut,
+    impactPercent: q.priceImpactPercent,
+    source: "quote" as const,
+  };
+}
+
+// Same shape as jupiter_sell_quote so TWAP jobs can run on paper
+export async function paperSellQuote(
+  mint: string,
+  tokens: number
+): Promise<{ solOut: number; priceImpactPercent: number }> {
+  const q = await quoteSell(mint, tokens);
+  return { solOut: q.sol, priceImpactPercent: q.impactPercent };
+}
+
+// Fills run one at a time so balance checks and pool updates never interleave
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => {});
+  return run;
+}
+
+async function record(
+  fill: PaperFill,
+  slippageBps?: number,
+  context?: string
+): Promise<void> {
+  try {
+    await paperTradeRepo.create({
+      tx_hash: fill.txid,
+      token_mint: fill.mint,
+      side: fill.side,
+      sol_amount: fill.sol,
+      token_amount: fill.tokens,
+      price_per_token: fill.pricePerToken,
+      price_impact_percent: fill.impactPercent,
+      slippage_bps: slippageBps,
+      fill_source: fill.source,
+      context,
+      sol_balance_after: fill.solBalance,
+      token_balance_after: fill.tokenBalance,
+    });
+  } catch (error) {
+    // logged by repo; the in-memory ledger stays authoritative
+  }
+}
+
+/** Simulated SOL -> token swap. Returns jupiter_buy's shape (price = tokens per SOL) plus the fill. */
+export function paper_buy(
+  tokenMint: string,
+  solAmount: number,
+  slippageBps?: number,
+  context?: string
+): Promise<{ txid: string; price: number; paper: true; fill: PaperFill }> {
+  return serialized(async () => {
+    const l = await loadLedger();
+    if (!(solAmount > 0)) throw new Error("Paper buy amount must be > 0");
+    if (solAmount > l.sol) {
+      throw new Error(
+        `Insufficient paper balance. Have ${l.sol} SOL, need ${solAmount} SOL`
+      );
+    }
+    const q = await quoteBuy(tokenMint, solAmount);
+    const tokens = Math.floor(q.tokens);
+    if (tokens <= 0) throw new Error(`No paper fill for ${tokenMint}`);
+
+    l.sol -= solAmount;
+    l.tokens.set(tokenMint, (l.tokens.get(tokenMint) ?? 0) + tokens);
+    const pool = pools.get(tokenMint);
+    if (pool)
+      pools.set(tokenMint, {
+        sol: pool.sol + solAmount,
+        tokens: pool.tokens - tokens,
+      });
+
+    const fill: PaperFill = {
+      txid: `PAPER-${crypto.randomBytes(12).toString("hex")}`,
+      mint: tokenMint,
+      side: "BUY",
+      sol: solAmount,
+      tokens,
+      pricePerToken: solAmount / tokens,
+      impactPercent: q.impactPercent,
+      source: q.source,
+      solBalance: l.sol,
+      tokenBalance: l.tokens.get(tokenMint),
+    };
+    console.log(
+      `📝 Paper buy: ${solAmount} SOL -> ${tokens} ${tokenMint} (${q.source}, impact ${q.impactPercent.toFixed(2)}%)`
+    );
+    await record(fill, slippageBps, context);
+    return { txid: fill.txid, price: tokens / solAmount, paper: true, fill };
+  });
+}
+
+/** Simulated token -> SOL swap against the virtual token balance. Returns jupiter_sell's shape plus the fill. */
+export function paper_sell(
+  tokenMint: string,
+  amountTokens: number,
+  slippageBps?: number,
+  context?: string
+): Promise<{
+  txid: string;
+  solReceived: number;
+  paper: true;
+  fill: PaperFill;
+}> {
+  return serialized(async () => {
+    const l = await loadLedger();
+    const held = l.tokens.get(tokenMint) ?? 0;
+    const tokens = Math.floor(amountTokens);
+    if (tokens <= 0) throw new Error("Paper sell amount must be > 0");
+    if (tokens > held) {
+      throw new Error(
+        `Insufficient paper tokens. Have ${held} of ${tokenMint}, need ${tokens}`
+      );
+    }
+    const q = await quoteSell(tokenMint, tokens);
+
+    l.sol += q.sol;
+    l.tokens.set(tokenMint, held - tokens);
+    const pool = pools.get(tokenMint);
+    if (pool)
+      pools.set(tokenMint, {
+        sol: pool.sol - q.sol,
+        tokens: pool.tokens + tokens,
+      });
+
+    const fill: PaperFill = {
+      txid: `PAPER-${crypto.randomBytes(12).toString("hex")}`,
+      mint: tokenMint,
+      side: "SELL",
+      sol: q.sol,
+      tokens,
+      pricePerToken: q.sol / tokens,
+      impactPercent: q.impactPercent,
+      source: q.source,
+      solBalance: l.sol,
+      tokenBalance: held - tokens,
+    };
+    console.log(
+      `📝 Paper sell: ${tokens} ${tokenMint} -> ${q.sol} SOL (${q.source}, impact ${q.impactPercent.toFixed(2)}%)`
+    );
+    await record(fill, slippageBps, context);
+    return { txid: fill.txid, solReceived: q.sol, paper: true, fill };
+  });
+}
+
+export async function recentPaperTrades(
+  limit: number = 50
+): Promise<PaperTradeEntity[]> {
+  return paperTradeRepo.getRecent(limit);
+}
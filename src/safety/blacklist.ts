@@ -6,8 +6,8 @@ export function isDevBlacklisted(devAddress: string): {
   reason?: string;
 } {
   const cfg = loadConfig();
-  if (!cfg.blacklist?.enabled) return { blocked: false };
-  const file = cfg.blacklist?.file || "blacklist.json";
+  if (!cfg.blacklist.enabled) return { blocked: false };
+  const file = cfg.blacklist.file;
   const p = path.isAbsolute(file) ? file : path.join(process.cwd(), file);
   const bl = fs.existsSync(p)
     ? JSON.parse(fs.readFileSync(p, "utf-8"))
@@ -0,0 +1,122 @@
+import { loadConfig } from "../helpers/superConfig.js";
+import { transactionRepo } from "../database/repositories/TransactionRepository.js";
+import { cooldownRepo } from "../database/repositories/CooldownRepository.js";
+import { Notifications } from "../notifications/bus.js";
+
+// How many recent transactions are replayed to rebuild the streak
+const HISTORY_LIMIT = 500;
+
+export type RoundTrip = {
+  mint: string;
+  costSol: number;
+  proceedsSol: number;
+  pnlSol: number;
+  closedAt: Date;
+};
+
+export interface CooldownStatus {
+  tripped: boolean;
+  lossStreak: number; // consecutive losing round-trips since the last reset
+  threshold: number; // risk.cooldown.lossStreak
+  pauseMin: number;
+  pausedUntil: string | null;
+  remainingSec: number;
+  lastResetAt: string | null;
+}
+
+export class CooldownActiveError extends Error {
+  constructor(public status: CooldownStatus) {
+    super(
+      `COOLDOWN: ${status.lossStreak} losing trades in a row, trading paused until ${status.pausedUntil} ` +
+        `(${Math.ceil(status.remainingSec / 60)} min remaining)`
+    );
+    this.name = "CooldownActiveError";
+  }
+}
+
+/**
+ * Rebuilds realized round-trips per mint from BUY/SELL rows (oldest first).
+ * A trip closes once its sells cover the bought token amount, or at the next BUY of the mint after a SELL.
+ * When the buy size was not recorded (token_amount 0) only a full exit closes it early: a SELL row whose
+ * on_chain_data carries `fullExit` (100% API sells, guard exits).
+ */
+export function realizedRoundTrips(rows: any[]): RoundTrip[] {
+  const open = new Map<string, { cost: number; proceeds: number; bought: number; sold: number; at: Date }>();
+  const trips: RoundTrip[] = [];
+  const close = (mint: string) => {
+    const t = open.get(mint);
+    if (!t || (t.sold === 0 && t.proceeds === 0)) return;
+    trips.push({ mint, costSol: t.cost, proceedsSol: t.proceeds, pnlSol: t.proceeds - t.cost, closedAt: t.at });
+    open.delete(mint);
+  };
+  for (const row of rows) {
+    const sol = Number(row.sol_amount) || 0;
+    const tokens = Number(row.token_amount) || 0;
+    const at = new Date(row.created_at);
+    if (row.type === "BUY") {
+      if (open.get(row.token_mint)?.proceeds) close(row.token_mint);
+      const t = open.get(row.token_mint) ?? { cost: 0, proceeds: 0, bought: 0, sold: 0, at };
+      t.cost += sol; t.bought += tokens; t.at = at;
+      open.set(row.token_mint, t);
+    } else {
+      const t = open.get(row.token_mint);
+      if (!t) continue; // sell of a position bought before the replayed history
+      t.proceeds += sol; t.sold += tokens; t.at = at;
+      const full = t.bought > 0 ? t.sold >= t.bought * 0.99 : !!row.on_chain_data?.fullExit;
+      if (full) close(row.token_mint);
+    }
+  }
+  return trips.sort((a, b) => a.closedAt.getTime() - b.closedAt.getTime());
+}
+
+/**
+ * Loss-streak circuit breaker (risk.cooldown): once `lossStreak` round-trips in a row lose SOL,
+ * new entries are refused for `pauseMin` from the last loss. The streak restarts after each pause
+ * and after a manual reset. DB trouble fails open: the breaker can only refuse what it can see.
+ */
+export async function getCooldownStatus(now = Date.now()): Promise<CooldownStatus> {
+  const cfg = loadConfig().risk.cooldown;
+  const [rows, reset] = await Promise.all([
+    transactionRepo.getLatestChronological(HISTORY_LIMIT),
+    cooldownRepo.getLatestReset(),
+  ]);
+  const resetAt = reset ? new Date(reset.reset_at).getTime() : 0;
+  let streak = 0; let run = 0; let pausedUntil = 0;
+  for (const trip of realizedRoundTrips(rows)) {
+    if (trip.closedAt.getTime() <= resetAt) continue;
+    if (trip.pnlSol >= 0) { streak = 0; run = 0; continue; }
+    streak++; run++;
+    if (run >= cfg.lossStreak) { pausedUntil = trip.closedAt.getTime() + cfg.pauseMin * 60_000; run = 0; }
+  }
+  const tripped = pausedUntil > now;
+  return {
+    tripped,
+    lossStreak: streak,
+    threshold: cfg.lossStreak,
+    pauseMin: cfg.pauseMin,
+    pausedUntil: pausedUntil ? new Date(pausedUntil).toISOString() : null,
+    remainingSec: tripped ? Math.ceil((pausedUntil - now) / 1000) : 0,
+    lastResetAt: reset ? new Date(reset.reset_at).toISOString() : null,
+  };
+}
+
+/** Throws CooldownActiveError while the breaker is tripped; `context` names the refused entry point. */
+export async function assertTradingAllowed(context: string): Promise<void> {
+  let status: CooldownStatus;
+  try {
+    status = await getCooldownStatus();
+  } catch (e) {
+    console.error(`⚠️ Cooldown check skipped for ${context}:`, e.message);
+    return;
+  }
+  if (!status.tripped) return;
+  const err = new CooldownActiveError(status);
+  Notifications.emit({ type: "cooldown", level: "warn", title: `${context} refused`, body: err.message });
+  throw err;
+}
+
+export async function resetCooldown(resetBy: string, note?: string): Promise<CooldownStatus> {
+  await cooldownRepo.recordReset(resetBy, note);
+  Notifications.emit({ type: "cooldown", level: "info", title: `Cooldown reset by ${resetBy}`, body: note });
+  return getCooldownStatus();
+}
@@ -2,14 +2,12 @@
 import { loadConfig } from "../helpers/superConfig.js";
 export type LiquidityBand = "low"|"medium"|"high";
 export function pickLiquidityBandUSD(lpUsd: number): LiquidityBand {
-  const b = loadConfig().safety?.liquidityLimits?.bandsUsd;
-  if (!b) return "medium";
-  if (lpUsd < (b.low?.lpMaxUsd??1000)) return "low";
-  if (lpUsd < (b.high?.lpMinUsd??10000)) return "medium";
+  const b = loadConfig().safety.liquidityLimits.bandsUsd;
+  if (lpUsd < (b.low.lpMaxUsd ?? b.medium.lpMinUsd ?? 0)) return "low";
+  if (lpUsd < (b.high.lpMinUsd ?? b.medium.lpMaxUsd ?? Infinity)) return "medium";
   return "high";
 }
 export function maxBuyForLiquidityUSD(lpUsd: number): number {
-  const cfg = loadConfig().safety?.liquidityLimits?.bandsUsd;
-  const band = pickLiquidityBandUSD(lpUsd);
-  return cfg?.[band]?.maxBuySol ?? 0.3;
+  const bands = loadConfig().safety.liquidityLimits.bandsUsd;
+  return bands[pickLiquidityBandUSD(lpUsd)].maxBuySol;
 }
@@ -0,0 +1,62 @@
+import { loadConfig } from "../helpers/superConfig.js";
+import {
+  maxBuyForLiquidityUSD,
+  pickLiquidityBandUSD,
+  LiquidityBand,
+} from "./liquidity.js";
+
+export type SizingConstraint = "requested" | "risk" | "liquidity" | "balance";
+
+export interface SizingInput {
+  requestedSol: number;
+  equitySol: number; // wallet SOL available for the trade
+  stopDistancePercent: number; // planned stop below entry, in percent
+  liquidityUsd?: number | null; // unknown liquidity skips the band cap
+}
+
+export interface SizingResult {
+  sol: number;
+  binding: SizingConstraint;
+  caps: Record<SizingConstraint, number | null>;
+  riskPercent: number;
+  stopDistancePercent: number;
+  band: LiquidityBand | null;
+  explanation: string;
+}
+
+/**
+ * Position size = the smallest of: what was asked for, the wallet balance, the liquidity band's maxBuySol,
+ * and the risk cap equity x perTradeRiskPercent / stop distance (losing the stop costs at most that share
+ * of equity). `binding` names the cap that decided the size.
+ */
+export function sizePosition(input: SizingInput): SizingResult {
+  const riskPercent = loadConfig().risk.perTradeRiskPercent;
+  const stop = Math.abs(input.stopDistancePercent);
+  const hasLp = input.liquidityUsd != null && input.liquidityUsd > 0;
+  const caps: Record<SizingConstraint, number | null> = {
+    requested: input.requestedSol,
+    balance: Math.max(0, input.equitySol),
+    liquidity: hasLp ? maxBuyForLiquidityUSD(input.liquidityUsd) : null,
+    risk: stop > 0 ? (Math.max(0, input.equitySol) * riskPercent) / stop : null,
+  };
+  let binding: SizingConstraint = "requested";
+  for (const k of ["balance", "liquidity", "risk"] as SizingConstraint[]) {
+    if (caps[k] !== null && caps[k] < caps[binding]) binding = k;
+  }
+  const sol = Math.max(0, caps[binding]);
+  const why: Record<SizingConstraint, string> = {
+    requested: `requested ${input.requestedSol} SOL fits every cap`,
+    balance: `wallet balance ${caps.balance} SOL`,
+    liquidity: `liquidity band cap ${caps.liquidity} SOL at $${input.liquidityUsd} LP`,
+    risk: `${riskPercent}% of ${input.equitySol} SOL equity at a ${stop}% stop`,
+  };
+  return {
+    sol,
+    binding,
+    caps,
+    riskPercent,
+    stopDistancePercent: stop,
+    band: hasLp ? pickLiquidityBandUSD(input.liquidityUsd) : null,
+    explanation: `${sol} SOL: ${why[binding]}`,
+  };
+}
@@ -1,8 +1,45 @@
 
 import { loadConfig } from "../helpers/superConfig.js";
+import { pickLiquidityBandUSD } from "../safety/liquidity.js";
+
+export type AutoScalpState = { entry: number|null; reference?: number|null; lpUsd?: number|null; holdSince?: number|null; taken?: number };
+
+/**
+ * Take-profit scalper.
+ * The target comes from targetProfitPercent by liquidity band (lowLP / default / highLP), measured from the
+ * entry or, after a scalp, from the last scalp price. The gain must hold for holdConfirmSec before firing.
+ * shouldTakeProfit returns the fraction of the remaining position to sell (0 = hold): partialExit.min% at the
+ * target, scaling to partialExit.max% at twice the target. It does not move the reference: call markTaken once
+ * the sell filled, so a failed sell fires again on the next confirmed tick.
+ */
 export class AutoScalp {
-  private entry: number|null=null;
-  setEntry(p:number){ this.entry=p; }
-  shouldTakeProfit(cur:number){ const cfg=loadConfig().trading?.autoScalp; if(!cfg?.enabled||this.entry===null) return false;
-    const base = cfg.targetProfitPercent?.default??7; const gain=((cur-this.entry)/this.entry)*100; return gain>=base; }
+  private entry: number|null=null; private reference: number|null=null; private lpUsd: number|null=null;
+  private holdSince: number|null=null; private taken=0;
+  setEntry(p:number){ this.entry=p; this.reference=p; }
+  setLiquidityUsd(lpUsd:number){ this.lpUsd=lpUsd; }
+
+  targetPercent(): number {
+    const t=loadConfig().trading.autoScalp.targetProfitPercent;
+    if (this.lpUsd===null) return t.default;
+    const band=pickLiquidityBandUSD(this.lpUsd);
+    return band==="low" ? t.lowLP : band==="high" ? t.highLP : t.default;
+  }
+
+  shouldTakeProfit(cur:number, now=Date.now()): number { const cfg=loadConfig().trading.autoScalp;
+    const ref=this.reference ?? this.entry; if(!cfg.enabled||ref===null||!(ref>0)) return 0;
+    const target=this.targetPercent(); const gain=((cur-ref)/ref)*100;
+    if (gain<target){ this.holdSince=null; return 0; }
+    if (this.holdSince===null) this.holdSince=now;
+    if (now-this.holdSince < cfg.holdConfirmSec*1000) return 0;
+    const { min, max } = cfg.partialExit;
+    const pct = min + (max-min)*Math.min(1, Math.max(0, (gain-target)/target));
+    return Math.min(1, pct/100);
+  }
+
+  markTaken(price:number){ this.reference=price; this.holdSince=null; this.taken++; }
+
+  scalpsTaken(){ return this.taken; }
+  getState(): AutoScalpState { return { entry: this.entry, reference: this.reference, lpUsd: this.lpUsd, holdSince: this.holdSince, taken: this.taken }; }
+  restore(s: AutoScalpState){ this.entry=s.entry; this.reference=s.reference ?? s.entry; this.lpUsd=s.lpUsd ?? null;
+    this.holdSince=s.holdSince ?? null; this.taken=s.taken ?? 0; }
 }
@@ -0,0 +1,25 @@
+
+// After entry a cancel either sells the rest now (exit) or stops guarding and leaves the tokens alone (detach)
+export type CancelMode = "exit" | "detach";
+export type SnipePhase = "wait" | "preEntry" | "entry";
+
+export class SnipeCancelledError extends Error {
+  constructor(public mint: string, public phase: SnipePhase){
+    super(`CANCELLED: snipe of ${mint} aborted during ${phase}`);
+    this.name = "SnipeCancelledError";
+  }
+}
+
+export function throwIfCancelled(signal: AbortSignal|undefined, mint: string, phase: SnipePhase){
+  if (signal?.aborted) throw new SnipeCancelledError(mint, phase);
+}
+
+/** setTimeout that returns early on abort; callers check the signal afterwards. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const done = () => { clearTimeout(t); signal?.removeEventListener("abort", done); resolve(); };
+    const t = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
@@ -0,0 +1,46 @@
+
+import { loadConfig } from "../helpers/superConfig.js";
+import type { AutoExitPattern } from "../patterns/autoExit.js";
+import type { SpamWatcher } from "../safety/spamWatcher.js";
+import { sleep } from "./cancel.js";
+
+export type PulseCheck = { ok: boolean; reason?: string };
+
+/**
+ * Tranche sizes for a staged entry of `totalSol` (trading.entryPulse):
+ * firstSol, then up to maxFirstSol, then the rest of the total. One tranche when the pulse is off or too small.
+ */
+export function pulsePlan(totalSol: number): number[] {
+  const cfg=loadConfig().trading.entryPulse;
+  if (!cfg.enabled || totalSol <= cfg.firstSol) return [totalSol];
+  const second = Math.max(0, Math.min(totalSol, cfg.maxFirstSol) - cfg.firstSol);
+  const rest = Math.max(0, totalSol - Math.max(cfg.firstSol, cfg.maxFirstSol));
+  return [cfg.firstSol, second, rest].filter(s => s > 0);
+}
+
+/** Average entry weighted by tokens bought: each tranche gets sol/price tokens, so it is total SOL over total tokens. */
+export function averageEntry(tranches: { sol: number; price: number }[]): number {
+  const priced = tranches.filter(t => t.price > 0);
+  const tokens = priced.reduce((a,t)=>a + t.sol/t.price, 0);
+  return tokens > 0 ? priced.reduce((a,t)=>a + t.sol, 0)/tokens : 0;
+}
+
+/**
+ * Watches the live price for entryPulse.confirmSec before the next tranche: fails as soon as the price dips
+ * below the average entry, AutoExitPattern sees a pool drain in the reserve deltas sampled alongside it, or
+ * SpamWatcher holds a high-severity signal. An abort ends the window at once with reason "cancelled".
+ */
+export async function confirmTranche(avgEntry: number, getLivePrice: () => Promise<number>, axe: AutoExitPattern, sw: SpamWatcher, getReserve?: () => Promise<number>, signal?: AbortSignal, now=()=>Date.now()): Promise<PulseCheck> {
+  const until = now() + loadConfig().trading.entryPulse.confirmSec*1000;
+  let lastReserve = 0;
+  while (true) {
+    if (signal?.aborted) return { ok:false, reason:"cancelled" };
+    const [price, reserve] = await Promise.all([getLivePrice(), getReserve ? getReserve().catch(() => 0) : 0]);
+    if (reserve > 0){ if (lastReserve > 0) axe.pushPoolDelta(((reserve-lastReserve)/lastReserve)*100, now()); lastReserve = reserve; }
+    if (price < avgEntry) return { ok:false, reason:`price ${price} below average entry ${avgEntry}` };
+    if (axe.shouldExit(now())) return { ok:false, reason:"pool drain pattern" };
+    const sp = sw.shouldExit(); if (sp.exit) return { ok:false, reason: sp.reason };
+    if (now() >= until) return { ok:true };
+    await sleep(400, signal);
+  }
+}
@@ -0,0 +1,97 @@
+
+import { loadConfig } from "../helpers/superConfig.js";
+import { Notifications } from "../notifications/bus.js";
+import type { TrailingStop } from "./trailingStop.js";
+import type { AutoScalp } from "./autoScalp.js";
+import type { TakeProfitLadder } from "./takeProfitLadder.js";
+import type { StopLoss } from "./stopLoss.js";
+import type { AutoExitPattern } from "../patterns/autoExit.js";
+import type { SpamWatcher } from "../safety/spamWatcher.js";
+import type { PositionEntity } from "../database/entities/Position.js";
+import type { SellReason } from "./sellWithJupiterJito.js";
+
+/** What a rule sees each tick: the live position (size shrinks as partials fill), price, latest pool reserve and clock. */
+export interface ExitContext { pos: PositionEntity; price: number; reserve: number|null; now: number }
+
+/**
+ * hold: nothing to do. partial: sell `tokens` now, onFilled runs once that sell succeeded.
+ * exit: sell the rest and close. `reason` picks the slippage bucket (execution.sell.slippageBpsByReason).
+ */
+export type ExitDecision =
+  | { action: "hold" }
+  | { action: "partial"; tokens: number; reason: SellReason; detail?: string; onFilled?: () => void }
+  | { action: "exit"; reason: SellReason; detail?: string };
+
+export interface ExitRule {
+  readonly name: string;
+  onTick(ctx: ExitContext): ExitDecision | ExitDecision[] | Promise<ExitDecision | ExitDecision[]>;
+}
+
+/** Per-position guard state shared by the rules; the guard feeds it every price sample and persists it. */
+export interface GuardComponents {
+  pos: PositionEntity; ts: TrailingStop; sc: AutoScalp; ladder: TakeProfitLadder; sl: StopLoss; axe: AutoExitPattern; sw: SpamWatcher;
+}
+
+export type ExitRuleFactory = (c: GuardComponents) => ExitRule;
+
+const HOLD: ExitDecision = { action: "hold" };
+const registry = new Map<string, ExitRuleFactory>();
+
+/** Makes a rule available to trading.exitRules under `name`; re-registering a name replaces it. */
+export function registerExitRule(name: string, factory: ExitRuleFactory){ registry.set(name, factory); }
+export function registeredExitRules(): string[] { return [...registry.keys()]; }
+
+/** Instantiates trading.exitRules in policy order for one position; unknown names are reported and skipped. */
+export function buildExitRules(c: GuardComponents, names = loadConfig().trading.exitRules): ExitRule[] {
+  const rules: ExitRule[] = [];
+  for (const name of names){
+    const factory = registry.get(name);
+    if (factory) rules.push(factory(c));
+    else Notifications.emit({type:"policy", level:"warn", title:`Unknown exit rule "${name}"`, body:`registered: ${registeredExitRules().join(", ")}`});
+  }
+  return rules;
+}
+
+registerExitRule("trailingStop", ({ ts }) => ({ name: "trailingStop", onTick: ({ price }) => {
+  if (!ts.shouldExit(price)) return HOLD;
+  Notifications.emit({type:"trailingStop", level:"warn", title:"Trailing stop exit"});
+  return { action: "exit", reason: "trailingStop" };
+}}));
+
+registerExitRule("stopLoss", ({ sl }) => ({ name: "stopLoss", onTick: ({ pos, price, now }) => {
+  if (!sl.shouldExit(price, now)) return HOLD;
+  Notifications.emit({type:"sell", level:"error", title:`Stop loss ${pos.token_mint}`, body:`price=${price} stop=${sl.stopPrice(now)}`});
+  return { action: "exit", reason: "stopLoss" };
+}}));
+
+// a partial scalp optionally tightens the trailing stop (autoScalp.comboTrailingBump)
+registerExitRule("autoScalp", ({ sc, ts }) => ({ name: "autoScalp", onTick: ({ pos, price, now }) => {
+  const scalp = sc.shouldTakeProfit(price, now);
+  if (scalp >= 1){ Notifications.emit({type:"sell", level:"success", title:"AutoScalp take profit"}); return { action: "exit", reason: "autoScalp" }; }
+  if (scalp <= 0) return HOLD;
+  Notifications.emit({type:"sell", level:"success", title:`AutoScalp partial ${(scalp*100).toFixed(0)}%`, body:`price=${price} target=${sc.targetPercent()}%`});
+  return { action: "partial", tokens: pos.size_tokens*scalp, reason: "autoScalp", onFilled: () => {
+    sc.markTaken(price);
+    const cfg = loadConfig().trading;
+    if (cfg.autoScalp.comboTrailingBump) ts.tighten(cfg.trailingStop.percentRange.chop[0], "combo bump after partial scalp");
+  }};
+}}));
+
+registerExitRule("takeProfit", ({ ladder }) => ({ name: "takeProfit", onTick: ({ pos, price }) =>
+  ladder.due(price).map((rung): ExitDecision => {
+    Notifications.emit({type:"sell", level:"success", title:`Take profit ${rung.id} ${pos.token_mint}`, body:`price=${price}`});
+    return { action: "partial", tokens: rung.tokens, reason: "takeProfit", detail: rung.id, onFilled: () => ladder.markFilled(rung.id) };
+  })
+}));
+
+registerExitRule("poolDrain", ({ axe }) => ({ name: "poolDrain", onTick: ({ now }) => {
+  if (!axe.shouldExit(now)) return HOLD;
+  Notifications.emit({type:"sell", level:"error", title:"AutoExit: pool drain pattern"});
+  return { action: "exit", reason: "poolDrain" };
+}}));
+
+registerExitRule("spamExit", ({ sw }) => ({ name: "spamExit", onTick: () => {
+  const sp = sw.shouldExit(); if (!sp.exit) return HOLD;
+  Notifications.emit({type:"sell", level:"error", title:"SpamWatcher exit", body: sp.reason});
+  return { action: "exit", reason: "spamExit", detail: sp.reason };
+}}));
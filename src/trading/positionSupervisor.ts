@@ -0,0 +1,320 @@
+
+import { TrailingStop } from "./trailingStop.js";
+import { AutoScalp } from "./autoScalp.js";
+import { TakeProfitLadder } from "./takeProfitLadder.js";
+import { StopLoss } from "./stopLoss.js";
+import { recordPriceSample } from "./slippageOracle.js";
+import { AutoExitPattern } from "../patterns/autoExit.js";
+import { SpamWatcher } from "../safety/spamWatcher.js";
+import { Notifications } from "../notifications/bus.js";
+import { loadConfig } from "../helpers/superConfig.js";
+import { positionRepo } from "../database/repositories/PositionRepository.js";
+import { transactionRepo } from "../database/repositories/TransactionRepository.js";
+import { marketTickRepo } from "../database/repositories/MarketTickRepository.js";
+import type { PositionEntity } from "../database/entities/Position.js";
+import { sellWithJupiterJito, SellReason, SellResult } from "./sellWithJupiterJito.js";
+import { paperTag } from "../paper/engine.js";
+import { buildExitRules, ExitContext, ExitRule } from "./exitRules.js";
+import type { CancelMode } from "./cancel.js";
+
+export type GuardDeps = {
+  getLivePrice: (mint: string) => Promise<number>; getLiquidityUsd?: (mint: string) => Promise<number>;
+  onTick?: (p:number)=>void;
+  autoExit?: AutoExitPattern; spamWatcher?: SpamWatcher;   // shared with whoever feeds them (the entry pulse hands over the instances it checked)
+  paper?: boolean;                                          // sells fill on the paper engine
+  signal?: AbortSignal; onCancel?: CancelMode;              // abort stops the guard: sell the rest (exit, default) or leave it DETACHED
+};
+
+export interface GuardOutcome {
+  positionId: number;
+  exitReason: SellReason;
+  txids: string[];          // every sell sent for this position, partials included
+  realizedSol: number;      // SOL received across those sells
+  closed: boolean;          // false when the final exit sell failed (position left EXITING)
+  cancelled?: CancelMode;   // stopped by the caller's signal rather than a trigger
+  error?: string;
+}
+
+const PERSIST_EVERY_MS = 1000;
+const RECORD_TICKS = /^(1|true|yes)$/i.test(process.env.RECORD_TICKS || "");
+const active = new Set<number>();
+
+// Sell `tokens` of the position and record it (paper fills are recorded by the engine); throws only when every slippage attempt failed
+async function executeSell(pos: PositionEntity, tokens: number, reason: SellReason, price: number, paper=false, fullExit=false): Promise<SellResult> {
+  const res = await sellWithJupiterJito(pos.token_mint, tokens, reason, paper);
+  if (paper) return res;
+  await transactionRepo.createSuccessful(res.txid, pos.wallet_address, pos.token_mint, "SELL", {
+    sol_amount: res.solReceived || 0, token_amount: Math.floor(tokens).toString(), price_per_token: price,
+    slippage_percent: res.slippageBps/100, price_impact_percent: 0, total_cost: res.solReceived || 0,
+    on_chain_data: { positionId: pos.id, reason, fullExit },
+  }).catch(() => { /* logged by repo; the sell itself succeeded */ });
+  return res;
+}
+
+/** Sells whatever remains of the position for `reason` and closes it; leaves it EXITING on failure. */
+export async function exitPosition(pos: PositionEntity, reason: SellReason, price: number, outcome?: GuardOutcome, paper=false): Promise<GuardOutcome> {
+  const out: GuardOutcome = outcome ?? { positionId: pos.id, exitReason: reason, txids: [], realizedSol: 0, closed: false };
+  out.exitReason = reason;
+  const persisted = pos.id > 0;
+  if (persisted) await positionRepo.setStatus(pos.id, "EXITING", reason).catch(() => {});
+  try {
+    if (pos.size_tokens > 0) {
+      const res = await executeSell(pos, pos.size_tokens, reason, price, paper, true);
+      out.txids.push(res.txid); out.realizedSol += res.solReceived || 0;
+    }
+    out.closed = true; pos.size_tokens = 0;
+    if (persisted) await positionRepo.setStatus(pos.id, "CLOSED", reason).catch(() => {});
+  } catch (e) {
+    out.error = e.message;
+    Notifications.emit({type:"position", level:"error", title:`${paperTag(paper)}EXIT FAILED #${pos.id} ${pos.token_mint}`, body:`reason=${reason}: ${e.message}`});
+  }
+  return out;
+}
+
+/** Batched market data for one supervisor tick. Mints missing from a result are skipped for that tick. */
+export type SupervisorFeed = {
+  getPrices: (mints: string[]) => Promise<Record<string, number>>;
+  getReserves?: (mints: string[]) => Promise<Record<string, number>>;   // quote-side pool reserve; its deltas feed AutoExitPattern
+};
+
+export interface GuardSnapshot {
+  key: number; positionId: number; mint: string; entryPrice: number; sizeTokens: number;
+  lastPrice: number|null; lastTickAt: string|null; ticks: number; busy: boolean;
+  stopPrice: number; trailingStop: ReturnType<TrailingStop["getState"]>; autoScalpTargetPercent: number;
+  ladder: ReturnType<TakeProfitLadder["getState"]>; txids: string[]; realizedSol: number;
+}
+
+// Sells part of a position and books it on `outcome`; false leaves the remainder guarded
+export type PartialSell = (pos: PositionEntity, tokens: number, reason: SellReason, price: number, outcome: GuardOutcome, paper?: boolean) => Promise<boolean>;
+
+/**
+ * Exit guards for one position: TrailingStop/AutoScalp/ladder/stop-loss restored from the positions table,
+ * stepped once per supervisor tick through the exit rules enabled in trading.exitRules. Positions with id 0 were never persisted (DB unavailable at entry) and are guarded in memory only.
+ * Every step takes `now`, so a backtest can drive the same guard on a virtual clock with a simulated `partial`.
+ */
+export class PositionGuard {
+  readonly ts=new TrailingStop(); readonly sc=new AutoScalp(); readonly ladder: TakeProfitLadder; readonly sl: StopLoss;
+  readonly axe: AutoExitPattern; readonly sw: SpamWatcher; readonly outcome: GuardOutcome;
+  lastPrice: number|null=null; lastTickAt: number|null=null; ticks=0; busy=false; cancelRequested=false;
+  private lastReserve: number|null=null; private lastSaved=""; private lastSaveAt=0; private rules: ExitRule[];
+
+  constructor(readonly key: number, readonly pos: PositionEntity, readonly deps: GuardDeps, private partial: PartialSell = takePartial){
+    const ts=this.ts, sc=this.sc;
+    if (pos.guard_state.trailingStop) ts.restore(pos.guard_state.trailingStop); else ts.setEntry(pos.entry_price);
+    ts.on(e => Notifications.emit({type:"trailingStop", level:"info", title:`Trailing stop ${e.reason} ${pos.token_mint}`,
+      body:`stop=${e.stop} peak=${e.peak} width=${e.widthPercent.toFixed(2)}% regime=${e.regime}${e.detail ? ` (${e.detail})` : ""}`}));
+    if (pos.guard_state.autoScalp) sc.restore(pos.guard_state.autoScalp); else sc.setEntry(pos.entry_price);
+    this.ladder=new TakeProfitLadder(pos.entry_price, pos.size_tokens);
+    if (pos.guard_state.ladder) this.ladder.restore(pos.guard_state.ladder);
+    this.sl=new StopLoss(pos.entry_price, new Date(pos.opened_at).getTime());
+    if (pos.guard_state.stopLoss) this.sl.restore(pos.guard_state.stopLoss);
+    this.axe=deps.autoExit ?? new AutoExitPattern(); this.sw=deps.spamWatcher ?? new SpamWatcher();
+    this.outcome={ positionId: pos.id, exitReason: "manual", txids: [], realizedSol: 0, closed: false };
+    this.rules=buildExitRules(this);
+  }
+
+  async init(){ if (this.sc.getState().lpUsd == null && this.deps.getLiquidityUsd) this.sc.setLiquidityUsd(await this.deps.getLiquidityUsd(this.pos.token_mint)); }
+
+  onReserve(reserve: number, now=Date.now()){
+    if (this.lastReserve) this.axe.pushPoolDelta(((reserve-this.lastReserve)/this.lastReserve)*100, now);
+    this.lastReserve = reserve;
+  }
+
+  // One tick of the guard loop: feed the sample, then ask each trading.exitRules rule in order; the exit reason once one fires, else null
+  async onTick(price: number, now=Date.now()): Promise<SellReason|null> {
+    const { pos, ts, sl, outcome } = this;
+    this.lastPrice=price; this.lastTickAt=now; this.ticks++;
+    recordPriceSample(pos.token_mint, price, now); ts.onPrice(price, now); sl.onPrice(price, now); this.deps.onTick?.(price); await this.persist();
+    const ctx: ExitContext = { pos, price, reserve: this.lastReserve, now };
+    for (const rule of this.rules){
+      let sold: SellReason|null = null;
+      for (const d of [await rule.onTick(ctx)].flat()){
+        if (d.action === "exit") return d.reason;
+        if (d.action !== "partial" || pos.size_tokens <= 0) continue;
+        if (await this.partial(pos, Math.min(d.tokens, pos.size_tokens), d.reason, price, outcome, this.deps.paper)) { d.onFilled?.(); sold = d.reason; }
+        await this.persist(true);
+      }
+      if (sold && pos.size_tokens <= 0) return sold;   // partials sold it all: close it under that reason
+    }
+    return null;
+  }
+
+  async persist(force=false){
+    if (this.pos.id <= 0) return;
+    const state = { trailingStop: this.ts.getState(), autoScalp: this.sc.getState(), ladder: this.ladder.getState(), stopLoss: this.sl.getState() }; const key = JSON.stringify(state);
+    if (key === this.lastSaved || (!force && Date.now()-this.lastSaveAt < PERSIST_EVERY_MS)) return;
+    try { await positionRepo.saveGuardState(this.pos.id, state.trailingStop.peak, state); this.lastSaved = key; this.lastSaveAt = Date.now(); }
+    catch (e) { /* logged by repo; keep guarding from memory */ }
+  }
+
+  snapshot(): GuardSnapshot {
+    return { key: this.key, positionId: this.pos.id, mint: this.pos.token_mint, entryPrice: this.pos.entry_price, sizeTokens: this.pos.size_tokens,
+      lastPrice: this.lastPrice, lastTickAt: this.lastTickAt ? new Date(this.lastTickAt).toISOString() : null, ticks: this.ticks, busy: this.busy,
+      stopPrice: this.sl.stopPrice(), trailingStop: this.ts.getState(), autoScalpTargetPercent: this.sc.targetPercent(),
+      ladder: this.ladder.getState(), txids: [...this.outcome.txids], realizedSol: this.outcome.realizedSol };
+  }
+}
+
+type Watched = { guard: PositionGuard; resolve: (o: GuardOutcome)=>void; reject: (e: Error)=>void };
+
+/**
+ * One loop for every guarded position. Each tick fetches prices (and reserves, when the feed has them) for all
+ * idle positions' mints in batches of trading.supervisor.maxBatch, then steps each guard; a guard busy selling
+ * sits the tick out instead of stalling the rest. Ticks start at most every trading.supervisor.tickMs.
+ * Without a feed, each distinct mint's price comes from the first watching position's getLivePrice.
+ */
+export class PositionSupervisor {
+  private watched = new Map<number, Watched>(); private nextKey = 1; private running = false;
+  constructor(private feed?: SupervisorFeed){}
+
+  setFeed(feed: SupervisorFeed){ this.feed = feed; }
+
+  /** Guards `pos` until an exit trigger fires and its sell has been sent. */
+  async watch(pos: PositionEntity, deps: GuardDeps): Promise<GuardOutcome> {
+    const guard = new PositionGuard(this.nextKey++, pos, deps);
+    await guard.init();
+    if (pos.id > 0) active.add(pos.id);
+    let w: Watched;
+    const done = new Promise<GuardOutcome>((resolve, reject) => { w = { guard, resolve, reject }; this.watched.set(guard.key, w); });
+    if (deps.signal?.aborted) this.cancel(w);
+    else {
+      deps.signal?.addEventListener("abort", () => this.cancel(w), { once: true });
+      if (!this.running) this.run().catch(e => console.error("❌ Position supervisor crashed:", e.message));
+    }
+    return done;
+  }
+
+  inspect(): GuardSnapshot[] { return [...this.watched.values()].map(w => w.guard.snapshot()); }
+
+  private async run(){
+    this.running = true;
+    try {
+      while (this.watched.size){
+        const started = Date.now();
+        await this.tick();
+        const wait = loadConfig().trading.supervisor.tickMs - (Date.now()-started);
+        if (wait > 0) await new Promise(r=>setTimeout(r, wait));
+      }
+    } finally { this.running = false; }
+  }
+
+  async tick(){
+    const idle = [...this.watched.values()].filter(w => !w.guard.busy);
+    const mints = [...new Set(idle.map(w => w.guard.pos.token_mint))];
+    if (!mints.length) return;
+    let prices: Record<string, number>, reserves: Record<string, number> = {};
+    try { [prices, reserves] = await Promise.all([this.fetchPrices(mints, idle), this.fetchReserves(mints)]); }
+    catch (e) { console.error("❌ Supervisor price fetch failed:", e.message); return; }
+    if (RECORD_TICKS) this.record(mints, prices, reserves);
+    for (const w of idle){
+      const mint = w.guard.pos.token_mint;
+      if (reserves[mint] > 0) w.guard.onReserve(reserves[mint]);
+      if (prices[mint] > 0) this.dispatch(w, prices[mint]);   // no price is no data: never let it trip a stop
+    }
+  }
+
+  // Tick series for the backtester; recording must never slow or break guarding
+  private record(mints: string[], prices: Record<string, number>, reserves: Record<string, number>){
+    const ts = new Date();
+    marketTickRepo.createMany(mints.filter(m => prices[m] > 0).map(m => ({ token_mint: m, ts, price: prices[m], sol_reserve: reserves[m] })))
+      .catch(() => { /* logged by repo */ });
+  }
+
+  private async fetchPrices(mints: string[], idle: Watched[]): Promise<Record<string, number>> {
+    if (!this.feed) {
+      const prices = await Promise.all(mints.map(m => idle.find(w => w.guard.pos.token_mint === m).guard.deps.getLivePrice(m)));
+      return Object.fromEntries(mints.map((m, i) => [m, prices[i]]));
+    }
+    return this.batched(mints, this.feed.getPrices);
+  }
+
+  // reserves only feed the drain pattern: a failed fetch skips that input, not the price tick
+  private async fetchReserves(mints: string[]): Promise<Record<string, number>> {
+    if (!this.feed?.getReserves) return {};
+    try { return await this.batched(mints, this.feed.getReserves); }
+    catch (e) { console.error("❌ Supervisor reserve fetch failed:", e.message); return {}; }
+  }
+
+  private async batched(mints: string[], fetch: (mints: string[]) => Promise<Record<string, number>>){
+    const size = loadConfig().trading.supervisor.maxBatch; const out: Record<string, number> = {};
+    for (let i=0; i<mints.length; i+=size) Object.assign(out, await fetch(mints.slice(i, i+size)));
+    return out;
+  }
+
+  // Steps one guard without blocking the tick; on exit it sells, settles the watch() promise and leaves the loop
+  private dispatch(w: Watched, price: number){
+    const { guard } = w; guard.busy = true;
+    (async () => {
+      const reason = await guard.onTick(price);
+      if (!reason) return;
+      this.watched.delete(guard.key);
+      await guard.persist(true);
+      w.resolve(await exitPosition(guard.pos, reason, price, guard.outcome, guard.deps.paper));
+    })().catch(e => { this.watched.delete(guard.key); w.reject(e); })
+      .finally(() => { guard.busy = false; if (!this.watched.has(guard.key)) active.delete(guard.pos.id); else if (guard.cancelRequested) this.cancel(w); });
+  }
+
+  /**
+   * Caller abort: a guard mid-tick finishes that tick first (a trigger that fired still wins). Then "exit" sells
+   * the rest as "manual" and closes; "detach" persists the guard state and marks the position DETACHED, which
+   * resumeOpenPositions leaves alone.
+   */
+  private cancel(w: Watched){
+    const { guard } = w; const { pos, deps } = guard;
+    if (!this.watched.has(guard.key)) return;
+    if (guard.busy){ guard.cancelRequested = true; return; }
+    this.watched.delete(guard.key); guard.busy = true;
+    const mode = deps.onCancel ?? "exit"; const tag = paperTag(!!deps.paper);
+    Notifications.emit({type:"position", level:"warn", title:`${tag}CANCELLED #${pos.id} ${pos.token_mint} (${mode})`, body:`size=${pos.size_tokens} realized=${guard.outcome.realizedSol} SOL`});
+    (async () => {
+      guard.outcome.cancelled = mode;
+      if (mode === "exit") return exitPosition(pos, "manual", guard.lastPrice ?? await deps.getLivePrice(pos.token_mint).catch(() => 0), guard.outcome, deps.paper);
+      await guard.persist(true);
+      pos.status = "DETACHED";
+      if (pos.id > 0) await positionRepo.setStatus(pos.id, "DETACHED", "cancelled").catch(() => {});
+      return guard.outcome;
+    })().then(w.resolve, w.reject)
+      .finally(() => { guard.busy = false; active.delete(pos.id); });
+  }
+}
+
+export const supervisor = new PositionSupervisor();
+
+/** Hands the position to the shared supervisor; resolves once an exit trigger fires and its sell has been sent. */
+export function guardPosition(pos: PositionEntity, deps: GuardDeps): Promise<GuardOutcome> {
+  return supervisor.watch(pos, deps);
+}
+
+// A failed partial is not fatal: the remainder stays guarded and the next trigger sells it
+async function takePartial(pos: PositionEntity, tokens: number, reason: SellReason, price: number, outcome: GuardOutcome, paper=false): Promise<boolean>{
+  if (tokens <= 0) return true;
+  try {
+    const res = await executeSell(pos, tokens, reason, price, paper);
+    outcome.txids.push(res.txid); outcome.realizedSol += res.solReceived || 0;
+    pos.size_tokens = Math.max(0, pos.size_tokens - tokens);
+    const exit = { at: new Date().toISOString(), reason, tokens, price, tx_hash: res.txid };
+    pos.partial_exits.push(exit);
+    if (pos.id > 0) await positionRepo.addPartialExit(pos.id, exit).catch(() => {});
+    return true;
+  } catch (e) {
+    Notifications.emit({type:"position", level:"warn", title:`${paperTag(paper)}Partial ${reason} failed #${pos.id}`, body: e.message});
+    return false;
+  }
+}
+
+/**
+ * Reloads positions from the DB on boot: OPEN ones resume their guard loops in the background,
+ * EXITING ones (exit sell failed before the restart) retry the sell for their recorded reason. DETACHED ones stay unguarded.
+ */
+export async function resumeOpenPositions(deps: GuardDeps): Promise<PositionEntity[]> {
+  const open = (await positionRepo.getActive()).filter(p => !active.has(p.id));
+  for (const pos of open) {
+    Notifications.emit({type:"position", level:"info", title:`RESUME #${pos.id} ${pos.token_mint} (${pos.status})`,
+      body:`entry=${pos.entry_price} peak=${pos.peak_price ?? "n/a"} size=${pos.size_tokens}`});
+    const run = pos.status === "EXITING"
+      ? deps.getLivePrice(pos.token_mint).then(price => exitPosition(pos, (pos.exit_reason as SellReason) || "manual", price))
+      : guardPosition(pos, deps);
+    run.catch(e => Notifications.emit({type:"position", level:"error", title:`Guard #${pos.id} crashed`, body: e.message}));
+  }
+  return open;
+}
@@ -0,0 +1,52 @@
+
+import { loadConfig } from "../helpers/superConfig.js";
+import { isDevBlacklisted } from "../safety/blacklist.js";
+import { sleep, throwIfCancelled } from "./cancel.js";
+
+export type PreEntrySkip = "lpReplenished" | "lpPulled" | "noLiquidity" | "devBlacklisted";
+export type PreEntryCheck = { ok: true; poolAgeSec: number; lpUsd: number; waitedSec: number } | { ok: false; skip: PreEntrySkip; reason: string };
+
+export class PreEntrySkipError extends Error {
+  constructor(public mint: string, public check: Extract<PreEntryCheck, { ok: false }>){
+    super(`PRE-ENTRY SKIP ${mint} (${check.skip}): ${check.reason}`);
+    this.name = "PreEntrySkipError";
+  }
+}
+
+const SAMPLE_MS = 1000;
+const LP_PULL_FRACTION = 0.5;    // LP at or below half its peak counts as pulled
+const LP_READD_FRACTION = 0.9;   // back to 90% of the pre-pull peak counts as re-added
+
+// the LP watch runs during the age wait, so minPoolAgeSec 0 turns the whole gate off
+export function preEntryCheckEnabled(): boolean { return loadConfig().execution.mintWait.preEntryDoubleCheck.minPoolAgeSec > 0; }
+
+/**
+ * Holds the entry until the pool is execution.mintWait.preEntryDoubleCheck.minPoolAgeSec old (from `openedAt`,
+ * else from detection), sampling LP all along: a pull followed by a re-add within noLpReplenishWindowSec is the
+ * classic bait-and-rug setup and skips. The blacklist and liquidity checks then run again on what the wait revealed.
+ */
+export async function preEntryDoubleCheck(
+  pool: { mint: string; openedAt?: number }, getLiquidityUsd: () => Promise<number>, devAddress?: string, signal?: AbortSignal, now=()=>Date.now(),
+): Promise<PreEntryCheck> {
+  const cfg = loadConfig().execution.mintWait.preEntryDoubleCheck;
+  const started = now(); const openedAt = pool.openedAt ?? started;
+  const readyAt = openedAt + cfg.minPoolAgeSec*1000;
+  let peak = 0, pulledAt: number|null = null, prePullPeak = 0, lpUsd = 0;
+  while (true) {
+    throwIfCancelled(signal, pool.mint, "preEntry");
+    lpUsd = await getLiquidityUsd(); const t = now();
+    if (pulledAt == null && peak > 0 && lpUsd <= peak*LP_PULL_FRACTION){ pulledAt = t; prePullPeak = peak; }
+    else if (pulledAt != null && lpUsd >= prePullPeak*LP_READD_FRACTION){
+      if (t - pulledAt <= cfg.noLpReplenishWindowSec*1000)
+        return { ok:false, skip:"lpReplenished", reason:`LP pulled from $${prePullPeak.toFixed(0)} and re-added to $${lpUsd.toFixed(0)} within ${((t-pulledAt)/1000).toFixed(0)}s` };
+      pulledAt = null;   // slow recovery outside the window: treat as a fresh pool
+    }
+    peak = Math.max(peak, lpUsd);
+    if (t >= readyAt) break;
+    await sleep(Math.min(SAMPLE_MS, readyAt - t), signal);
+  }
+  if (devAddress){ const blk = isDevBlacklisted(devAddress); if (blk.blocked) return { ok:false, skip:"devBlacklisted", reason:`dev ${devAddress}: ${blk.reason || ""}` }; }
+  if (!(lpUsd > 0)) return { ok:false, skip:"noLiquidity", reason:"no liquidity after the pre-entry wait" };
+  if (pulledAt != null) return { ok:false, skip:"lpPulled", reason:`LP $${lpUsd.toFixed(0)} is still down from its $${prePullPeak.toFixed(0)} peak` };
+  return { ok:true, poolAgeSec: Math.round((now()-openedAt)/1000), lpUsd, waitedSec: Math.round((now()-started)/1000) };
+}
@@ -2,11 +2,32 @@
 import { loadConfig } from "../helpers/superConfig.js";
 import { Notifications } from "../notifications/bus.js";
 import { jupiter_sell } from "../jupiter/adapter.js";
-export type SellReason="trailingStop"|"autoScalp"|"poolDrain"|"spamExit"|"manual";
-export async function sellWithJupiterJito(tokenMint:string, amountTokens:number, reason:SellReason){
-  const cfg=loadConfig(); const range = cfg.execution?.sell?.slippageBpsByReason?.[reason]||[150,200];
-  const slippage = range[0]; const res = await jupiter_sell(tokenMint, amountTokens, slippage);
-  if (cfg.execution?.sell?.unwrapWSOL){ /* TODO: unwrap */ }
-  Notifications.emit({type:"sell", level:"success", title:`SELL ${tokenMint}`, body:`reason=${reason}`, link: res?.txid});
-  return res;
+import { paper_sell, paperTag } from "../paper/engine.js";
+import type { SellReasonKey } from "../types/policy.js";
+import { resolveSlippageBps } from "./slippageOracle.js";
+export type SellReason=SellReasonKey;
+export type SellResult = { txid: string; solReceived?: number; slippageBps: number; attempts: number };
+
+const MAX_SELL_ATTEMPTS = 3;
+
+/**
+ * Sells at the low end of slippageBpsByReason[reason] (or the slippage oracle's value clamped into that range
+ * when trading.slippageAuto is on); failed attempts retry at the upper end. Paper mode fills on the simulated engine.
+ */
+export async function sellWithJupiterJito(tokenMint:string, amountTokens:number, reason:SellReason, paper=false): Promise<SellResult>{
+  const cfg=loadConfig(); const range = cfg.execution.sell.slippageBpsByReason[reason];
+  const first = Math.min(range[1], Math.max(range[0], resolveSlippageBps(tokenMint, { fallbackBps: range[0] }).bps));
+  let lastError: Error|undefined;
+  for (let attempt=1; attempt<=MAX_SELL_ATTEMPTS; attempt++){
+    const slippage = attempt===1 ? first : range[1];
+    try {
+      const res = paper ? await paper_sell(tokenMint, amountTokens, slippage, reason) : await jupiter_sell(tokenMint, amountTokens, slippage, cfg.execution.sell.unwrapWSOL);
+      Notifications.emit({type:"sell", level:"success", title:`${paperTag(paper)}SELL ${tokenMint}`, body:`reason=${reason} slippage=${slippage}bps`, link: res?.txid});
+      return { ...res, slippageBps: slippage, attempts: attempt };
+    } catch (e) {
+      lastError = e;
+      Notifications.emit({type:"sell", level:"warn", title:`${paperTag(paper)}SELL ${tokenMint} failed (${attempt}/${MAX_SELL_ATTEMPTS})`, body:`reason=${reason} slippage=${slippage}bps: ${e.message}`});
+    }
+  }
+  throw lastError;
 }
@@ -0,0 +1,57 @@
+
+import { loadConfig } from "../helpers/superConfig.js";
+
+// Used when the request omits slippage and trading.slippageAuto is off
+export const DEFAULT_SLIPPAGE_BPS = 150;
+// Sample cap per mint, far above what any sane windowSec at the guard tick rate needs
+const MAX_SAMPLES = 2000;
+
+export type SlippageSource = "request" | "auto" | "default";
+export interface SlippageQuote {
+  bps: number;
+  source: SlippageSource;
+  volatilityPercent?: number;   // realized volatility over the window (auto only)
+  impactPercent?: number;       // quoted/estimated price impact fed in (auto only)
+  samples?: number;
+}
+
+type Sample = { ts: number; price: number };
+const samples = new Map<string, Sample[]>();
+
+/** Feed a live SOL-per-token price for `mint` (guards, entry pulse, order watcher); never mix in USD quotes. */
+export function recordPriceSample(mint: string, price: number, now=Date.now()){
+  if (!(price>0)) return;
+  const xs = samples.get(mint) ?? []; xs.push({ ts: now, price });
+  if (xs.length > MAX_SAMPLES) xs.splice(0, xs.length-MAX_SAMPLES);
+  samples.set(mint, xs);
+}
+
+/** Realized volatility of the last windowSec: stdev of tick log-returns scaled by sqrt(ticks), in percent. */
+export function realizedVolatilityPercent(mint: string, windowSec: number, now=Date.now()): { percent: number; samples: number } | null {
+  const xs = (samples.get(mint) ?? []).filter(s => now - s.ts <= windowSec*1000);
+  if (xs.length < 3) return null;
+  const rets = xs.slice(1).map((s,i) => Math.log(s.price/xs[i].price));
+  const mean = rets.reduce((a,b)=>a+b,0)/rets.length;
+  const sd = Math.sqrt(rets.reduce((a,b)=>a+(b-mean)**2,0)/rets.length);
+  return { percent: sd*Math.sqrt(rets.length)*100, samples: xs.length };
+}
+
+/**
+ * Slippage for an execution: an explicit request wins; otherwise, with trading.slippageAuto enabled,
+ * bpsMin + window volatility + price impact (all in bps) clamped to [bpsMin, bpsMax]; else `fallbackBps`.
+ */
+export function resolveSlippageBps(mint: string, opts: { requestedBps?: number|null; impactPercent?: number; fallbackBps?: number } = {}, now=Date.now()): SlippageQuote {
+  if (opts.requestedBps != null && opts.requestedBps > 0) return { bps: Math.round(opts.requestedBps), source: "request" };
+  const cfg = loadConfig().trading.slippageAuto;
+  if (!cfg.enabled) return { bps: opts.fallbackBps ?? DEFAULT_SLIPPAGE_BPS, source: "default" };
+  const vol = realizedVolatilityPercent(mint, cfg.windowSec, now); const impact = Math.abs(opts.impactPercent ?? 0);
+  const raw = cfg.bpsMin + (vol?.percent ?? 0)*100 + impact*100;
+  return { bps: Math.round(Math.min(cfg.bpsMax, Math.max(cfg.bpsMin, raw))), source: "auto",
+    volatilityPercent: vol?.percent ?? 0, impactPercent: impact, samples: vol?.samples ?? 0 };
+}
+
+export function describeSlippage(q: SlippageQuote): string {
+  return q.source === "auto"
+    ? `${q.bps}bps auto (vol ${q.volatilityPercent.toFixed(2)}% over ${q.samples} samples, impact ${q.impactPercent.toFixed(2)}%)`
+    : `${q.bps}bps ${q.source}`;
+}
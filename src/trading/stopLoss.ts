@@ -0,0 +1,47 @@
+
+import { loadConfig } from "../helpers/superConfig.js";
+
+type Bar = { start: number; open: number; high: number; low: number; close: number };
+export type StopLossState = { entry: number; openedAt: number; bars?: Bar[] };
+
+/** Stop distance in force right after entry (no ATR bars yet in any mode); what position sizing risks against. */
+export function plannedStopDistancePercent(): number { return loadConfig().risk.stopLoss.percentEarly; }
+
+/**
+ * Hard stop below entry (risk.stopLoss).
+ * - percent: entry minus percentEarly%
+ * - atr: entry minus atr.multiplier x ATR, where ATR averages the true range of atr.barSec bars built from
+ *   the live price samples; falls back to the percent stop until atr.period bars have closed
+ * - atrOrPercent: the wider (lower) of the two while the position is younger than earlyWindowSec, ATR after
+ */
+export class StopLoss {
+  private bars: Bar[] = [];
+  constructor(private entry: number, private openedAt: number = Date.now()) {}
+
+  onPrice(p:number, now=Date.now()){ if(!(p>0)) return; const cfg=loadConfig().risk.stopLoss.atr;
+    const start = now - (now % (cfg.barSec*1000)); const last = this.bars[this.bars.length-1];
+    if (last && last.start === start){ last.high=Math.max(last.high,p); last.low=Math.min(last.low,p); last.close=p; }
+    else this.bars = [...this.bars, { start, open: p, high: p, low: p, close: p }].slice(-(cfg.period+2));
+  }
+
+  /** Average true range over the last `period` closed bars, or null while there are too few. */
+  atr(): number|null { const period=loadConfig().risk.stopLoss.atr.period;
+    const closed=this.bars.slice(0,-1); if (closed.length < period+1) return null;
+    const trs = closed.slice(-period).map((b,i,arr) => { const prev = i ? arr[i-1].close : closed[closed.length-period-1].close;
+      return Math.max(b.high, prev) - Math.min(b.low, prev); });
+    return trs.reduce((a,b)=>a+b,0)/period;
+  }
+
+  stopPrice(now=Date.now()): number|null { if(!(this.entry>0)) return null; const cfg=loadConfig().risk.stopLoss;
+    const pct = this.entry*(1-cfg.percentEarly/100); const atr=this.atr();
+    const atrStop = atr===null ? null : this.entry - cfg.atr.multiplier*atr;
+    if (cfg.mode==="percent" || atrStop===null) return pct;
+    if (cfg.mode==="atr") return atrStop;
+    return now - this.openedAt < cfg.earlyWindowSec*1000 ? Math.min(pct, atrStop) : atrStop;
+  }
+
+  shouldExit(p:number, now=Date.now()){ const stop=this.stopPrice(now); return stop!==null && p>0 && p<=stop; }
+
+  getState(): StopLossState { return { entry: this.entry, openedAt: this.openedAt, bars: this.bars }; }
+  restore(s: StopLossState){ this.entry=s.entry; this.openedAt=s.openedAt; this.bars=s.bars ?? []; }
+}
@@ -1,33 +1,104 @@
 
 import { isDevBlacklisted } from "../safety/blacklist.js";
-import { TrailingStop } from "./trailingStop.js";
-import { AutoScalp } from "./autoScalp.js";
-import { AutoExitPattern } from "../patterns/autoExit.js";
-import { SpamWatcher } from "../safety/spamWatcher.js";
 import { Notifications } from "../notifications/bus.js";
-import { loadConfig } from "../helpers/superConfig.js";
 import { jupiter_buy } from "../jupiter/adapter.js";
+import { paper_buy, paperTag } from "../paper/engine.js";
+import { positionRepo } from "../database/repositories/PositionRepository.js";
+import { transactionRepo } from "../database/repositories/TransactionRepository.js";
+import { assertTradingAllowed } from "../safety/cooldown.js";
+import type { PositionEntity } from "../database/entities/Position.js";
+import { tradingWalletAddress } from "../wallet/wallet.js";
+import { guardPosition, GuardOutcome } from "./positionSupervisor.js";
+import { pulsePlan, averageEntry, confirmTranche } from "./entryPulse.js";
+import { AutoExitPattern } from "../patterns/autoExit.js";
+import { SpamWatcher } from "../safety/spamWatcher.js";
+import { solReserves } from "../integration/marketFeed.js";
+import { recordPriceSample, resolveSlippageBps, describeSlippage, SlippageQuote } from "./slippageOracle.js";
+import { CancelMode, throwIfCancelled } from "./cancel.js";
 
 type BuyParams = {
-  tokenMint: string; solAmount: number; devAddress?: string;
+  tokenMint: string; solAmount: number; devAddress?: string; liquidityUsd?: number; slippageBps?: number;
   getLivePrice: () => Promise<number>; onTick?: (p:number)=>void;
+  getReserve?: () => Promise<number>;   // SOL-side pool reserve for the scale-in drain check; defaults to the market feed
+  spamWatcher?: SpamWatcher;   // whoever ingests spam signals; checked before each scale-in and by the guard
+  paper?: boolean;   // simulated fills, in-memory position, paper_trades only
+  signal?: AbortSignal; onCancel?: CancelMode;   // before the first fill an abort throws; after it see GuardDeps
 };
 
-export async function safeBuyWithGuards(p: BuyParams){
-  const cfg=loadConfig();
+const PAPER_WALLET = "paper";
+
+export type Tranche = { sol: number; price: number; txid: string; slippage: SlippageQuote };
+export type GuardedBuyOutcome = GuardOutcome & { buyTxid: string; solSpent: number; tranches: Tranche[]; pulseStopped?: string; paper: boolean };
+
+/**
+ * Buys (in entryPulse tranches when enabled), then guards the position until an exit trigger fires and
+ * its sell has been sent. Each scale-in waits for confirmTranche; a failed check or buy keeps what was filled.
+ * Paper runs skip the cooldown (their fills never reach the transactions it reads) and are never persisted as positions.
+ * An abort before the first fill throws SnipeCancelledError; after it, scale-ins stop and the guard applies onCancel.
+ */
+export async function safeBuyWithGuards(p: BuyParams): Promise<GuardedBuyOutcome>{
+  const paper = !!p.paper; const tag = paperTag(paper);
+  if (!paper) await assertTradingAllowed("safeBuyWithGuards");
   if (p.devAddress){ const blk=isDevBlacklisted(p.devAddress); if(blk.blocked) throw new Error(`BLACKLISTED DEV: ${blk.reason||""}`); }
-  const result = await jupiter_buy(p.tokenMint, p.solAmount);
-  Notifications.emit({type:"buy", level:"success", title:`BUY ${p.tokenMint}`, link: result?.txid});
-  const entry = await p.getLivePrice();
-  const ts=new TrailingStop(); const sc=new AutoScalp(); sc.setEntry(entry);
-  const axe=new AutoExitPattern(); const sw=new SpamWatcher();
-  let keep=true;
-  while(keep){ const price=await p.getLivePrice(); ts.onPrice(price); p.onTick?.(price);
-    if (ts.shouldExit(price)){ Notifications.emit({type:"trailingStop", level:"warn", title:"Trailing stop exit"}); keep=false; break; }
-    if (sc.shouldTakeProfit(price)){ Notifications.emit({type:"sell", level:"success", title:"AutoScalp take profit"}); keep=false; break; }
-    if (axe.shouldExit()){ Notifications.emit({type:"sell", level:"error", title:"AutoExit: pool drain pattern"}); keep=false; break; }
-    const sp = sw.shouldExit(); if (sp.exit){ Notifications.emit({type:"sell", level:"error", title:"SpamWatcher exit", body: sp.reason}); keep=false; break; }
-    await new Promise(r=>setTimeout(r,400));
+  const livePrice = async () => { const x = await p.getLivePrice(); recordPriceSample(p.tokenMint, x); return x; };
+  const buy = async (sol: number) => { const slippage = resolveSlippageBps(p.tokenMint, { requestedBps: p.slippageBps });
+    return { ...(paper ? await paper_buy(p.tokenMint, sol, slippage.bps, "snipe") : await jupiter_buy(p.tokenMint, sol, slippage.bps)), slippage }; };
+  await livePrice();
+  const [firstSol, ...scaleIns] = pulsePlan(p.solAmount);
+  throwIfCancelled(p.signal, p.tokenMint, "entry");
+  const result = await buy(firstSol);
+  Notifications.emit({type:"buy", level:"success", title:`${tag}BUY ${p.tokenMint}`,
+    body: `${scaleIns.length ? `tranche 1/${scaleIns.length+1}: ` : ""}${firstSol} SOL, slippage ${describeSlippage(result.slippage)}`, link: result?.txid});
+  const entry = await livePrice();
+  const tranches: Tranche[] = [{ sol: firstSol, price: entry, txid: result.txid, slippage: result.slippage }];
+  const pos = await openPosition(p, firstSol, entry, result);
+  const axe=new AutoExitPattern(); const sw=p.spamWatcher ?? new SpamWatcher(); let pulseStopped: string|undefined;
+  const getReserve = p.getReserve ?? (() => solReserves([p.tokenMint]).then(r => r[p.tokenMint] ?? 0));
+  for (const sol of scaleIns){
+    if (p.signal?.aborted){ pulseStopped = "cancelled"; break; }
+    const check = await confirmTranche(pos.entry_price, livePrice, axe, sw, getReserve, p.signal);
+    if (!check.ok){ pulseStopped = check.reason; break; }
+    try {
+      const r = await buy(sol); const price = await livePrice();
+      tranches.push({ sol, price, txid: r.txid, slippage: r.slippage });
+      await addTranche(pos, sol, averageEntry(tranches), r, price);
+      Notifications.emit({type:"buy", level:"success", title:`${tag}SCALE-IN ${p.tokenMint}`, body:`tranche ${tranches.length}/${scaleIns.length+1}: ${sol} SOL, avg entry ${pos.entry_price}, slippage ${describeSlippage(r.slippage)}`, link: r.txid});
+    } catch (e) { pulseStopped = `scale-in buy failed: ${e.message}`; break; }
+  }
+  if (pulseStopped) Notifications.emit({type:"buy", level:"warn", title:`${tag}Entry pulse stopped ${p.tokenMint}`, body:`${pulseStopped}; holding ${pos.sol_amount} SOL`});
+  const outcome = await guardPosition(pos, { getLivePrice: p.getLivePrice, onTick: p.onTick, autoExit: axe, spamWatcher: sw, paper, signal: p.signal, onCancel: p.onCancel });
+  return { ...outcome, buyTxid: result.txid, solSpent: pos.sol_amount, tranches, pulseStopped, paper };
+}
+
+// the BUY rows are what the loss-streak cooldown pairs this position's sells against
+function recordBuy(txid: string, wallet: string, mint: string, sol: number, tokens: number, price: number, slippage: SlippageQuote){
+  return transactionRepo.createSuccessful(txid, wallet, mint, "BUY", {
+    sol_amount: sol, token_amount: Math.floor(tokens).toString(), price_per_token: price, total_cost: sol, slippage_percent: slippage.bps/100,
+  }).catch(() => { /* logged by repo */ });
+}
+
+async function addTranche(pos: PositionEntity, sol: number, avgEntry: number, result: { txid: string; price?: number; slippage: SlippageQuote }, price: number){
+  const tokens = (result.price ?? 0) * sol;
+  pos.size_tokens += tokens; pos.sol_amount += sol; pos.entry_price = avgEntry;
+  pos.guard_state = { ...pos.guard_state, autoScalp: { ...pos.guard_state.autoScalp, entry: avgEntry } };
+  if (pos.wallet_address !== PAPER_WALLET) await recordBuy(result.txid, pos.wallet_address, pos.token_mint, sol, tokens, price, result.slippage);
+  if (pos.id > 0) await positionRepo.addTranche(pos.id, pos.entry_price, pos.size_tokens, pos.sol_amount, pos.guard_state).catch(() => {});
+}
+
+// Persist the position so a restart can resume its guards; DB trouble must not abandon the trade
+async function openPosition(p: BuyParams, sol: number, entry: number, result: { txid: string; price?: number; slippage: SlippageQuote }): Promise<PositionEntity> {
+  const data = {
+    token_mint: p.tokenMint, wallet_address: p.paper ? PAPER_WALLET : tradingWalletAddress(), entry_price: entry,
+    size_tokens: (result.price ?? 0) * sol, sol_amount: sol, buy_tx_hash: result.txid,
+    guard_state: { autoScalp: { entry, lpUsd: p.liquidityUsd ?? null } },
+  };
+  const now = new Date();
+  // a resumed paper position would sell real tokens, so paper positions live in memory only
+  if (p.paper) return { ...data, id: 0, partial_exits: [], status: "OPEN", opened_at: now, updated_at: now };
+  await recordBuy(result.txid, data.wallet_address, p.tokenMint, sol, data.size_tokens, entry, result.slippage);
+  try { return await positionRepo.create(data); }
+  catch (e) {
+    Notifications.emit({type:"position", level:"warn", title:`Position for ${p.tokenMint} not persisted`, body: e.message});
+    return { ...data, id: 0, partial_exits: [], status: "OPEN", opened_at: now, updated_at: now };
   }
-  return result;
 }
@@ -0,0 +1,52 @@
+
+import { loadConfig } from "../helpers/superConfig.js";
+import type { RiskPolicy } from "../types/policy.js";
+
+export type LadderRung = { id: string; multiple: number; percent: number; filled: boolean; targetPrice: number|null };
+export type LadderState = { baseSize: number; filled: string[] };
+
+/**
+ * Rungs from risk.targets, as multiples of entry:
+ * - x2 / x3 sell that percent of the entry size at 2x / 3x
+ * - fib levels are percent-of-entry price levels (127 = 1.27x) sharing whatever x2 and x3 leave unallocated
+ * Rungs at the same multiple are merged.
+ */
+export function buildLadder(targets: RiskPolicy["targets"]): { id: string; multiple: number; percent: number }[] {
+  const rungs: { id: string; multiple: number; percent: number }[] = [];
+  if (targets.x2 > 0) rungs.push({ id: "x2", multiple: 2, percent: targets.x2 });
+  if (targets.x3 > 0) rungs.push({ id: "x3", multiple: 3, percent: targets.x3 });
+  const fibShare = targets.fib.length ? Math.max(0, 100 - targets.x2 - targets.x3) / targets.fib.length : 0;
+  if (fibShare > 0) for (const f of targets.fib) rungs.push({ id: `fib${f}`, multiple: f/100, percent: fibShare });
+  const merged = new Map<number, { id: string; multiple: number; percent: number }>();
+  for (const r of rungs) {
+    const m = merged.get(r.multiple);
+    if (m) { m.id = `${m.id}+${r.id}`; m.percent += r.percent; } else merged.set(r.multiple, { ...r });
+  }
+  return [...merged.values()].sort((a, b) => a.multiple - b.multiple);
+}
+
+/** Ladder snapshot for API responses; filled rungs come from a persisted LadderState when there is one. */
+export function describeLadder(entryPrice: number|null, state?: LadderState): LadderRung[] {
+  const filled = new Set(state?.filled ?? []);
+  return buildLadder(loadConfig().risk.targets).map(r => ({
+    ...r, filled: filled.has(r.id), targetPrice: entryPrice && entryPrice > 0 ? entryPrice*r.multiple : null,
+  }));
+}
+
+export class TakeProfitLadder {
+  private filled = new Set<string>();
+  constructor(private entry: number, private baseSize: number) {}
+
+  /** Unfilled rungs the price has reached, with the token amount each should sell. */
+  due(price: number): { id: string; tokens: number }[] {
+    if (!(this.entry > 0)) return [];
+    return buildLadder(loadConfig().risk.targets)
+      .filter(r => !this.filled.has(r.id) && price >= this.entry*r.multiple)
+      .map(r => ({ id: r.id, tokens: this.baseSize*r.percent/100 }));
+  }
+
+  markFilled(id: string){ this.filled.add(id); }
+  remaining(): LadderRung[] { return describeLadder(this.entry, this.getState()).filter(r => !r.filled); }
+  getState(): LadderState { return { baseSize: this.baseSize, filled: [...this.filled] }; }
+  restore(s: LadderState){ this.baseSize = s.baseSize; this.filled = new Set(s.filled); }
+}
@@ -1,8 +1,102 @@
 
 import { loadConfig } from "../helpers/superConfig.js";
+
+export type TrailingRegime = "chop"|"earlyPump";
+export type TrailingStopState = { peak: number; stop: number; entry?: number|null; armed?: boolean; regime?: TrailingRegime };
+export type StopMoveReason = "armed"|"peak"|"regime"|"tightened"|"wickIgnored";
+export interface StopMoveEvent { reason: StopMoveReason; stop: number; peak: number; widthPercent: number; regime: TrailingRegime; price: number; detail?: string; }
+type Listener = (e: StopMoveEvent) => void;
+type Sample = { ts: number; price: number };
+
+// minimum samples before volatility/wick statistics are trusted
+const MIN_SAMPLES = 5;
+
+function stats(xs: number[]){ const n=xs.length; const mean=xs.reduce((a,b)=>a+b,0)/n;
+  return { mean, sd: Math.sqrt(xs.reduce((a,b)=>a+(b-mean)**2,0)/n) }; }
+
+/**
+ * Ratcheting trailing stop.
+ * - arms only once the peak clears entry by armAboveEntryPercent (no entry = armed immediately)
+ * - width comes from percentRange.earlyPump when the window trend dominates its noise, else percentRange.chop;
+ *   within the range it widens with realized tick volatility
+ * - wickGuard ignores a single tick more than `sigma` deviations from the rolling window mean
+ * The stop never moves down; every move is reported to listeners with its reason.
+ */
 export class TrailingStop {
-  private peak = 0; private stop=0;
-  onPrice(p:number){ const cfg=loadConfig().trading?.trailingStop; if(!cfg?.enabled) return;
-    if (p>this.peak){ this.peak=p; const range=cfg.percentRange?.earlyPump||[12,15]; this.stop=this.peak*(1-(range[0]/100)); } }
-  shouldExit(p:number){ return this.stop>0 && p<=this.stop; }
+  private peak = 0; private stop=0; private entry: number|null = null; private armed=false;
+  private regime: TrailingRegime = "earlyPump"; private samples: Sample[] = []; private lastWasWick=false;
+  private ls: Listener[] = [];
+
+  on(l: Listener){ this.ls.push(l); }
+  setEntry(p:number){ this.entry=p; }
+
+  onPrice(p:number, now=Date.now()){ const cfg=loadConfig().trading.trailingStop; if(!cfg.enabled || !(p>0)) return;
+    const window = this.samples.filter(s => now - s.ts <= cfg.wickGuard.windowSec*1000);
+    this.samples = [...window, { ts: now, price: p }];
+    if (this.isWick(p, window.map(s=>s.price))) { this.emit("wickIgnored", p, `outside ${cfg.wickGuard.sigma} sigma`); return; }
+
+    const prevRegime = this.regime; this.regime = this.detectRegime();
+    const newPeak = p>this.peak; if (newPeak) this.peak=p;
+    if (!this.armed) {
+      const threshold = this.entry === null ? 0 : this.entry*(1+cfg.armAboveEntryPercent/100);
+      if (this.peak < threshold) return;
+      this.armed = true; this.raiseTo(this.candidateStop(), "armed", p); return;
+    }
+    const moved = this.raiseTo(this.candidateStop(), newPeak ? "peak" : "regime", p);
+    if (!moved && prevRegime !== this.regime) this.emit("regime", p, `${prevRegime} -> ${this.regime}`);
+  }
+
+  shouldExit(p:number){ return this.armed && this.stop>0 && p<=this.stop && !this.lastWasWick; }
+
+  /** Tightens the stop to `widthPercent` below the peak (used after a partial scalp). */
+  tighten(widthPercent: number, detail?: string){
+    if (!this.armed || this.peak<=0) return false;
+    return this.raiseTo(this.peak*(1-widthPercent/100), "tightened", this.peak, detail ?? `width ${widthPercent}%`);
+  }
+
+  widthPercent(): number {
+    const cfg=loadConfig().trading.trailingStop; const [lo, hi] = cfg.percentRange[this.regime];
+    const vol = this.volatilityPercent();
+    return vol === null ? lo : lo + (hi-lo)*Math.min(1, vol/hi);
+  }
+
+  getState(): TrailingStopState { return { peak: this.peak, stop: this.stop, entry: this.entry, armed: this.armed, regime: this.regime }; }
+  restore(s: TrailingStopState){ this.peak=s.peak; this.stop=s.stop; this.entry=s.entry ?? null;
+    this.armed=s.armed ?? s.stop>0; this.regime=s.regime ?? "earlyPump"; }
+
+  private candidateStop(){ return this.peak*(1-this.widthPercent()/100); }
+
+  private raiseTo(candidate: number, reason: StopMoveReason, price: number, detail?: string){
+    if (candidate <= this.stop) return false;
+    this.stop = candidate; this.emit(reason, price, detail); return true;
+  }
+
+  private isWick(p: number, window: number[]){
+    const cfg=loadConfig().trading.trailingStop.wickGuard;
+    if (!cfg.enabled || window.length < MIN_SAMPLES || this.lastWasWick) { this.lastWasWick=false; return false; }
+    const { mean, sd } = stats(window);
+    this.lastWasWick = sd > 0 && Math.abs(p-mean) > cfg.sigma*sd;
+    return this.lastWasWick;
+  }
+
+  // stddev of tick-to-tick returns in the window, in percent
+  private volatilityPercent(): number|null {
+    if (this.samples.length < MIN_SAMPLES) return null;
+    const r: number[] = [];
+    for (let i=1;i<this.samples.length;i++) r.push((this.samples[i].price/this.samples[i-1].price-1)*100);
+    return stats(r).sd;
+  }
+
+  // earlyPump when the window's net rise exceeds its noise (2x the return volatility scaled by sqrt(n))
+  private detectRegime(): TrailingRegime {
+    const vol = this.volatilityPercent(); if (vol === null) return this.regime;
+    const first = this.samples[0].price, last = this.samples[this.samples.length-1].price;
+    const trend = (last/first-1)*100;
+    return trend > 0 && trend > 2*vol*Math.sqrt(this.samples.length) ? "earlyPump" : "chop";
+  }
+
+  private emit(reason: StopMoveReason, price: number, detail?: string){
+    const e: StopMoveEvent = { reason, stop: this.stop, peak: this.peak, widthPercent: this.widthPercent(), regime: this.regime, price, detail };
+    this.ls.forEach(l => l(e));
+  }
 }
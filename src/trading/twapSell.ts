@@ -0,0 +1,129 @@
+
+import { loadConfig } from "../helpers/superConfig.js";
+import { Notifications } from "../notifications/bus.js";
+import { resolveSlippageBps } from "./slippageOracle.js";
+
+export type TwapStatus = "running"|"paused"|"completed"|"cancelled"|"drained"|"failed";
+export type TwapDeps = {
+  quote: (tokens: number) => Promise<{ solOut: number; priceImpactPercent: number }>;
+  sell: (tokens: number, slippageBps: number) => Promise<{ txid: string; solReceived?: number }>;
+  onSlice?: (s: TwapSlice) => void|Promise<void>;
+  getReserve?: () => Promise<number>;   // SOL-side pool reserve; without it the drain bail-out is off
+};
+export interface TwapOptions { slices?: number; windowSec?: number; maxImpactPercent?: number; maxPauseSec?: number; drainExitPercent?: number }
+export interface TwapSlice { index: number; tokens: number; txid: string; solReceived: number; impactPercent: number; slippageBps: number; at: string; market?: boolean }
+export interface TwapJobSnapshot {
+  id: string; mint: string; status: TwapStatus; totalTokens: number; tokensSold: number; solReceived: number;
+  slicesPlanned: number; slices: TwapSlice[]; options: Required<TwapOptions>; lastImpactPercent: number|null;
+  startedAt: string; finishedAt: string|null; error?: string;
+}
+
+const jobs = new Map<string, TwapSellJob>();
+let nextId = 1;
+const FINISHED_RETENTION_MS = 60*60_000;   // finished jobs stay inspectable this long, then drop out of the registry
+
+/**
+ * Chunked exit: `slices` equal sells spread over `windowSec`. Every slice is re-quoted first; while the quoted
+ * impact exceeds maxImpactPercent the job pauses (failing after maxPauseSec). The pool's SOL reserve is read
+ * alongside each quote; once it sits drainExitPercent below its starting level (net of the SOL our own slices
+ * took out), the schedule is abandoned for one market sell of the remainder. 0 turns the bail-out off.
+ */
+export class TwapSellJob {
+  readonly id = `twap-${nextId++}`;
+  private status: TwapStatus = "running"; private cancelled = false; private slices: TwapSlice[] = [];
+  private sold = 0; private sol = 0; private lastImpact: number|null = null; private startReserve: number|null = null;
+  private startedAt = new Date(); private finishedAt: Date|null = null; private error?: string;
+  readonly options: Required<TwapOptions>;
+
+  constructor(readonly mint: string, readonly totalTokens: number, private deps: TwapDeps, opts: TwapOptions = {}){
+    const d = loadConfig().execution.sell.twap;
+    this.options = { slices: Math.max(1, Math.floor(opts.slices ?? d.slices)), windowSec: opts.windowSec ?? d.windowSec,
+      maxImpactPercent: opts.maxImpactPercent ?? d.maxImpactPercent, maxPauseSec: opts.maxPauseSec ?? d.maxPauseSec,
+      drainExitPercent: opts.drainExitPercent ?? d.drainExitPercent };
+  }
+
+  cancel(){ if (this.status==="running" || this.status==="paused") this.cancelled = true; return this.snapshot(); }
+  finishedBefore(t: number){ return this.finishedAt !== null && this.finishedAt.getTime() < t; }
+
+  async run(): Promise<TwapJobSnapshot> {
+    const { slices, windowSec } = this.options; const gapMs = slices > 1 ? windowSec*1000/(slices-1) : 0;
+    Notifications.emit({type:"sell", level:"info", title:`TWAP ${this.id} started ${this.mint}`, body:`${this.totalTokens} tokens in ${slices} slices over ${windowSec}s`});
+    try {
+      for (let i=0; i<slices && !this.cancelled; i++){
+        const tokens = i===slices-1 ? this.totalTokens-this.sold : Math.floor(this.totalTokens/slices);
+        if (tokens <= 0) continue;
+        const q = await this.waitForImpact(tokens);
+        if (!q) break;
+        const slippageBps = resolveSlippageBps(this.mint, { impactPercent: q.priceImpactPercent, fallbackBps: loadConfig().execution.sell.slippageBpsByReason.manual[0] }).bps;
+        await this.sellSlice(i, tokens, q.priceImpactPercent, slippageBps);
+        if (i < slices-1) await this.sleep(gapMs);
+      }
+      if (this.status==="running" || this.status==="paused") this.status = this.cancelled ? "cancelled" : "completed";
+    } catch (e) { this.status = "failed"; this.error = e.message; }
+    this.finishedAt = new Date();
+    Notifications.emit({type:"sell", level: this.status==="completed" ? "success" : "warn", title:`TWAP ${this.id} ${this.status} ${this.mint}`,
+      body:`sold ${this.sold}/${this.totalTokens} tokens for ${this.sol} SOL${this.error ? `: ${this.error}` : ""}`});
+    return this.snapshot();
+  }
+
+  // Re-quotes until impact is acceptable; null when cancelled, drained or paused past maxPauseSec
+  private async waitForImpact(tokens: number){
+    const pausedAt = Date.now();
+    while (!this.cancelled){
+      const q = await this.deps.quote(tokens); this.lastImpact = q.priceImpactPercent;
+      if (await this.drained()){ await this.marketSellRemainder(); return null; }
+      if (q.priceImpactPercent <= this.options.maxImpactPercent){ this.status = "running"; return q; }
+      if (this.status !== "paused") Notifications.emit({type:"sell", level:"warn", title:`TWAP ${this.id} paused`, body:`impact ${q.priceImpactPercent.toFixed(2)}% > ${this.options.maxImpactPercent}%`});
+      this.status = "paused";
+      if (Date.now()-pausedAt > this.options.maxPauseSec*1000) throw new Error(`impact stayed above ${this.options.maxImpactPercent}% for ${this.options.maxPauseSec}s`);
+      await this.sleep(2000);
+    }
+    return null;
+  }
+
+  // Reserve drop from the first reading, with our own slices' SOL added back so the TWAP never trips itself
+  private async drained(): Promise<boolean> {
+    const limit = this.options.drainExitPercent;
+    if (!(limit > 0) || !this.deps.getReserve) return false;
+    const reserve = await this.deps.getReserve().catch(() => 0);
+    if (!(reserve > 0)) return false;
+    if (this.startReserve == null){ this.startReserve = reserve; return false; }
+    return ((this.startReserve - (reserve + this.sol))/this.startReserve)*100 >= limit;
+  }
+
+  private async marketSellRemainder(){
+    const tokens = this.totalTokens-this.sold; this.status = "drained";
+    Notifications.emit({type:"poolDrain", level:"error", title:`TWAP ${this.id} pool drain ${this.mint}`, body:`market selling remaining ${tokens} tokens`});
+    if (tokens > 0) await this.sellSlice(this.slices.length, tokens, this.lastImpact ?? 0, loadConfig().execution.sell.slippageBpsByReason.poolDrain[1], true);
+  }
+
+  private async sellSlice(index: number, tokens: number, impactPercent: number, slippageBps: number, market = false){
+    const res = await this.deps.sell(tokens, slippageBps);
+    const slice: TwapSlice = { index, tokens, txid: res.txid, solReceived: res.solReceived || 0, impactPercent, slippageBps, at: new Date().toISOString(), market: market || undefined };
+    this.slices.push(slice); this.sold += tokens; this.sol += slice.solReceived;
+    await this.deps.onSlice?.(slice);
+  }
+
+  private async sleep(ms: number){ const until = Date.now()+ms; while (!this.cancelled && Date.now() < until) await new Promise(r=>setTimeout(r, Math.min(250, until-Date.now()))); }
+
+  snapshot(): TwapJobSnapshot {
+    return { id: this.id, mint: this.mint, status: this.status,
+      totalTokens: this.totalTokens, tokensSold: this.sold, solReceived: this.sol, slicesPlanned: this.options.slices,
+      slices: [...this.slices], options: this.options, lastImpactPercent: this.lastImpact,
+      startedAt: this.startedAt.toISOString(), finishedAt: this.finishedAt?.toISOString() ?? null, error: this.error };
+  }
+}
+
+function pruneFinished(now=Date.now()){ for (const [id, j] of jobs) if (j.finishedBefore(now-FINISHED_RETENTION_MS)) jobs.delete(id); }
+
+/** Starts a TWAP sell in the background and registers it for inspection/cancellation. */
+export function startTwapSell(mint: string, tokens: number, deps: TwapDeps, opts?: TwapOptions): TwapSellJob {
+  pruneFinished();
+  const job = new TwapSellJob(mint, tokens, deps, opts); jobs.set(job.id, job);
+  job.run().catch(e => console.error(`❌ TWAP ${job.id} crashed:`, e.message));
+  return job;
+}
+
+export function getTwapJob(id: string){ pruneFinished(); return jobs.get(id); }
+export function listTwapJobs(): TwapJobSnapshot[] { pruneFinished(); return [...jobs.values()].map(j => j.snapshot()); }
+export function cancelTwapJob(id: string): TwapJobSnapshot|null { pruneFinished(); const j = jobs.get(id); return j ? j.cancel() : null; }
@@ -1,8 +1,20 @@
-import { waitForPoolByMint } from "./waitForPool.js";
+import { SocialFreq, waitForPoolByMint } from "./waitForPool.js";
 import { isDevBlacklisted } from "../safety/blacklist.js";
-import { maxBuyForLiquidityUSD } from "../safety/liquidity.js";
+import { sizePosition } from "../safety/positionSizing.js";
+import { plannedStopDistancePercent } from "./stopLoss.js";
+import { tradingWalletBalanceSol } from "../wallet/wallet.js";
 import { safeBuyWithGuards } from "./swapWithJupiterJito.js";
 import { Notifications } from "../notifications/bus.js";
+import { assertTradingAllowed } from "../safety/cooldown.js";
+import { isPaperMode, paperSolBalance, paperTag } from "../paper/engine.js";
+import {
+  preEntryCheckEnabled,
+  preEntryDoubleCheck,
+  PreEntrySkipError,
+} from "./preEntryCheck.js";
+import { CancelMode, SnipeCancelledError, throwIfCancelled } from "./cancel.js";
+import type { WaitPreset } from "../types/policy.js";
+import type { SpamWatcher } from "../safety/spamWatcher.js";
 
 type Injects = {
   hasPoolNow: () => Promise<
@@ -10,26 +22,63 @@ type Injects = {
         amm: "raydium" | "pump" | "cpmm" | "pumpswap";
         pool: string;
         mint: string;
+        openedAt?: number;
       }
     | undefined
   >;
   getLivePrice: () => Promise<number>;
   getLiquidityUsd: () => Promise<number>;
+  getEquitySol?: () => Promise<number>;
   preDevAddress?: string;
   qtyTokensAfterBuy: () => Promise<number>;
+  paper?: boolean; // overrides PAPER_TRADING for this snipe
+  preset?: WaitPreset; // max-wait preset for this snipe; otherwise picked from the social wave
+  getSocialFreq?: () => Promise<SocialFreq>;
+  expectedLaunchAt?: number; // ms since epoch; polling speeds up as it nears
+  signal?: AbortSignal; // cancels the snipe; after entry onCancel decides what happens to the position
+  onCancel?: CancelMode; // default "exit"
+  spamWatcher?: SpamWatcher; // fed by the caller; gates scale-ins and the guard's spamExit
 };
 
+/**
+ * Aborting inj.signal before entry throws SnipeCancelledError (after a "SNIPE CANCELLED" notification);
+ * after entry the guarded position exits or detaches per inj.onCancel and the outcome carries `cancelled`.
+ */
 export async function waitAndSnipeMint(
   mint: string,
   wishSol: number,
   inj: Injects
 ) {
-  const pool = await waitForPoolByMint(mint, inj.hasPoolNow);
+  try {
+    return await snipe(mint, wishSol, inj);
+  } catch (e) {
+    if (e instanceof SnipeCancelledError) {
+      Notifications.emit({
+        type: "buy",
+        level: "warn",
+        title: `${paperTag(isPaperMode(inj.paper))}SNIPE CANCELLED ${mint}`,
+        body: `aborted during ${e.phase}; nothing was bought`,
+      });
+    }
+    throw e;
+  }
+}
+
+async function snipe(mint: string, wishSol: number, inj: Injects) {
+  const paper = isPaperMode(inj.paper);
+  const tag = paperTag(paper);
+  if (!paper) await assertTradingAllowed("waitAndSnipeMint");
+  const pool = await waitForPoolByMint(mint, inj.hasPoolNow, {
+    preset: inj.preset,
+    getSocialFreq: inj.getSocialFreq,
+    expectedLaunchAt: inj.expectedLaunchAt,
+    signal: inj.signal,
+  });
   Notifications.emit({
     type: "buy",
     level: "info",
-    title: `POOL READY @ ${pool.amm}`,
-    body: pool.pool,
+    title: `${tag}POOL READY @ ${pool.amm} (${pool.preset})`,
+    body: `${pool.pool} preset=${pool.preset} (${pool.presetSource}) waited=${pool.waitedSec}s checks=${pool.checks}`,
   });
   if (inj.preDevAddress) {
     const blk = isDevBlacklisted(inj.preDevAddress);
@@ -38,15 +87,63 @@ export async function waitAndSnipeMint(
         `BLACKLIST DEV ${inj.preDevAddress}: ${blk.reason || ""}`
       );
   }
-  const lpUsd = await inj.getLiquidityUsd();
-  const maxAllowed = maxBuyForLiquidityUSD(lpUsd);
-  const spendSol = Math.min(wishSol, maxAllowed);
-  await safeBuyWithGuards({
+  let lpUsd: number;
+  if (preEntryCheckEnabled()) {
+    const check = await preEntryDoubleCheck(
+      pool,
+      inj.getLiquidityUsd,
+      inj.preDevAddress,
+      inj.signal
+    );
+    if (check.ok === false) {
+      Notifications.emit({
+        type:
+          check.skip === "lpPulled" || check.skip === "noLiquidity"
+            ? "poolDrain"
+            : "rugWarning",
+        level: "warn",
+        title: `${tag}SKIP ${mint}: ${check.skip}`,
+        body: check.reason,
+      });
+      throw new PreEntrySkipError(mint, check);
+    }
+    Notifications.emit({
+      type: "buy",
+      level: "info",
+      title: `${tag}PRE-ENTRY OK ${mint}`,
+      body: `pool age ${check.poolAgeSec}s, LP $${check.lpUsd.toFixed(0)}, waited ${check.waitedSec}s`,
+    });
+    lpUsd = check.lpUsd;
+  } else {
+    lpUsd = await inj.getLiquidityUsd();
+  }
+  const sizing = sizePosition({
+    requestedSol: wishSol,
+    equitySol: await (
+      inj.getEquitySol ?? (paper ? paperSolBalance : tradingWalletBalanceSol)
+    )(),
+    stopDistancePercent: plannedStopDistancePercent(),
+    liquidityUsd: lpUsd,
+  });
+  Notifications.emit({
+    type: "buy",
+    level: "info",
+    title: `${tag}SIZE ${sizing.sol} SOL (${sizing.binding})`,
+    body: sizing.explanation,
+  });
+  if (sizing.sol <= 0)
+    throw new Error(`Position size is 0: ${sizing.explanation}`);
+  throwIfCancelled(inj.signal, mint, "entry");
+  const outcome = await safeBuyWithGuards({
     tokenMint: mint,
-    solAmount: spendSol,
+    solAmount: sizing.sol,
+    liquidityUsd: lpUsd,
     devAddress: inj.preDevAddress,
     getLivePrice: inj.getLivePrice,
+    paper,
+    signal: inj.signal,
+    onCancel: inj.onCancel,
+    spamWatcher: inj.spamWatcher,
   });
-  const qty = await inj.qtyTokensAfterBuy();
-  // TODO: wire guardian for autosell triggers
+  return { ...outcome, sizing };
 }
@@ -1,28 +1,122 @@
 import { loadConfig } from "../helpers/superConfig.js";
+import type { WaitPreset } from "../types/policy.js";
+import { sleep, throwIfCancelled } from "./cancel.js";
 
 export type PoolInfo = {
   amm: "raydium" | "pump" | "cpmm" | "pumpswap";
   pool: string;
   mint: string;
+  openedAt?: number; // pool creation, ms since epoch, when the detector knows it
 };
 
+// Mentions of the mint in the last 5 and 15 minutes
+export type SocialFreq = { m5: number; m15: number };
+
+export interface WaitForPoolOptions {
+  preset?: WaitPreset; // explicit per-snipe choice; wins over the social wave
+  getSocialFreq?: () => Promise<SocialFreq>;
+  expectedLaunchAt?: number; // ms since epoch
+  signal?: AbortSignal; // aborts the wait with SnipeCancelledError
+}
+
+export type PresetSource = "explicit" | "socialWave" | "default";
+
+export type PoolWaitResult = PoolInfo & {
+  preset: WaitPreset;
+  presetSource: PresetSource;
+  waitedSec: number;
+  checks: number;
+};
+
+const LAUNCH_RAMP_MS = 10 * 60_000; // polling speeds up over the last 10 minutes before the expected launch
+const IDLE_BACKOFF = 1.5; // per consecutive quiet check
+
+async function readFreq(
+  getSocialFreq?: () => Promise<SocialFreq>
+): Promise<SocialFreq | null> {
+  if (!getSocialFreq) return null;
+  try {
+    return await getSocialFreq();
+  } catch (error) {
+    console.log(`⚠️ Social frequency unavailable: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Explicit preset first; otherwise, with autoPresetBySocialWave.use, a hot wave (m5 at threshold) means the
+ * launch is close (aggressive), a building one (m15 at threshold) standard, and a quiet one a long marathon.
+ */
+export function chooseWaitPreset(
+  explicit?: WaitPreset,
+  freq?: SocialFreq | null
+): { preset: WaitPreset; source: PresetSource } {
+  const mintWait = loadConfig().execution.mintWait;
+  if (explicit) {
+    if (!(explicit in mintWait.maxWaitSecPresets))
+      throw new Error(`Unknown wait preset "${explicit}"`);
+    return { preset: explicit, source: "explicit" };
+  }
+  const wave = mintWait.autoPresetBySocialWave;
+  if (!wave.use || !freq) return { preset: "standard", source: "default" };
+  if (freq.m5 >= wave.thresholds.m5)
+    return { preset: "aggressive", source: "socialWave" };
+  if (freq.m15 >= wave.thresholds.m15)
+    return { preset: "standard", source: "socialWave" };
+  return { preset: "marathon", source: "socialWave" };
+}
+
+/**
+ * 0 = idle, 1 = hot: the stronger of the social wave (relative to the auto-preset thresholds)
+ * and closeness to the expected launch time.
+ */
+function urgency(freq: SocialFreq | null, expectedLaunchAt?: number): number {
+  const th = loadConfig().execution.mintWait.autoPresetBySocialWave.thresholds;
+  const social = freq
+    ? Math.max(freq.m5 / Math.max(th.m5, 1), freq.m15 / Math.max(th.m15, 1))
+    : 0;
+  const launch =
+    expectedLaunchAt != null
+      ? 1 - (expectedLaunchAt - Date.now()) / LAUNCH_RAMP_MS
+      : 0;
+  return Math.min(1, Math.max(0, social, launch));
+}
+
+/**
+ * Quiet checks back off from pollMsDynamic.min toward max; urgency pulls the interval back toward min.
+ */
+export function nextPollMs(idleChecks: number, urgencyLevel: number): number {
+  const { min, max } = loadConfig().execution.mintWait.pollMsDynamic;
+  const backoff = Math.min(max, min * Math.pow(IDLE_BACKOFF, idleChecks));
+  return Math.round(backoff - (backoff - min) * urgencyLevel);
+}
+
 export async function waitForPoolByMint(
   mint: string,
-  hasPoolNow: () => Promise<PoolInfo | undefined>
-): Promise<PoolInfo> {
+  hasPoolNow: () => Promise<PoolInfo | undefined>,
+  opts: WaitForPoolOptions = {}
+): Promise<PoolWaitResult> {
   const exec = loadConfig().execution;
-  const maxWait = (exec?.mintWait?.maxWaitSecPresets?.standard ?? 3600) * 1000;
-  const poll = exec?.mintWait?.pollMs ?? 600;
+  const { preset, source } = chooseWaitPreset(
+    opts.preset,
+    await readFreq(opts.getSocialFreq)
+  );
+  const maxWait = exec.mintWait.maxWaitSecPresets[preset] * 1000;
   const start = Date.now();
 
   console.log(`🔍 Starting pool monitoring for mint: ${mint}`);
-  console.log(`⏰ Max wait time: ${maxWait / 1000} seconds`);
-  console.log(`🔄 Poll interval: ${poll}ms`);
+  console.log(
+    `⏰ Max wait time: ${maxWait / 1000} seconds (${preset}, ${source})`
+  );
+  console.log(
+    `🔄 Poll interval: ${exec.mintWait.pollMsDynamic.min}-${exec.mintWait.pollMsDynamic.max}ms`
+  );
   console.log(`⏳ Waiting for pool creation...`);
 
   let attempts = 0;
 
   while (true) {
+    throwIfCancelled(opts.signal, mint, "wait");
     attempts++;
     const elapsed = Date.now() - start;
 
@@ -40,7 +134,13 @@ export async function waitForPoolByMint(
         console.log(`   AMM: ${info.amm}`);
         console.log(`   Pool: ${info.pool}`);
         console.log(`   Mint: ${info.mint}`);
-        return info;
+        return {
+          ...info,
+          preset,
+          presetSource: source,
+          waitedSec: Math.round((Date.now() - start) / 1000),
+          checks: attempts,
+        };
       } else {
         console.log(`❌ No pool detected yet`);
       }
@@ -52,10 +152,17 @@ export async function waitForPoolByMint(
       console.log(
         `⏰ TIMEOUT: Pool not created after ${maxWait / 1000} seconds`
       );
-      throw new Error(`Timeout: pool not created for ${mint}`);
+      throw new Error(`Timeout: pool not created for ${mint} (${preset})`);
     }
 
-    console.log(`😴 Sleeping for ${poll}ms before next check...`);
-    await new Promise((r) => setTimeout(r, poll));
+    const heat = urgency(
+      await readFreq(opts.getSocialFreq),
+      opts.expectedLaunchAt
+    );
+    const poll = nextPollMs(attempts - 1, heat);
+    console.log(
+      `😴 Sleeping for ${poll}ms before next check (urgency ${heat.toFixed(2)})...`
+    );
+    await sleep(poll, opts.signal);
   }
 }
@@ -0,0 +1,206 @@
+// Typed model of the trading policy (src/policy/master_config.json).
+// Keep in sync with src/policy/schema.json: every property here has a matching schema entry.
+
+export type Range = [number, number];
+export type DeepPartial<T> = T extends (infer U)[]
+  ? U[]
+  : T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+export type WaitPreset = "aggressive" | "standard" | "marathon";
+export type SellReasonKey =
+  | "trailingStop"
+  | "poolDrain"
+  | "spamExit"
+  | "autoScalp"
+  | "takeProfit"
+  | "stopLoss"
+  | "manual";
+export type ForbidFlag =
+  | "mint"
+  | "freeze"
+  | "blacklist"
+  | "upgradeable"
+  | "closable";
+export type StopLossMode = "atrOrPercent" | "percent" | "atr";
+
+export interface FreqThresholds {
+  m5: number;
+  m15: number;
+}
+
+export interface ExecutionPolicy {
+  mintWait: {
+    enabled: boolean;
+    maxWaitSecPresets: Record<WaitPreset, number>;
+    autoPresetBySocialWave: { use: boolean; thresholds: FreqThresholds };
+    pollMsDynamic: { min: number; max: number };
+    preEntryDoubleCheck: {
+      minPoolAgeSec: number;
+      noLpReplenishWindowSec: number;
+    };
+  };
+  sell: {
+    unwrapWSOL: boolean;
+    slippageBpsByReason: Record<SellReasonKey, Range>;
+    twap: {
+      slices: number;
+      windowSec: number;
+      maxImpactPercent: number;
+      maxPauseSec: number;
+      drainExitPercent: number; // SOL reserve drop that turns the rest into one market sell (0 = off)
+    };
+  };
+}
+
+export interface TrailingStopPolicy {
+  enabled: boolean;
+  percentRange: { chop: Range; earlyPump: Range };
+  armAboveEntryPercent: number;
+  wickGuard: { enabled: boolean; sigma: number; windowSec: number };
+}
+
+export interface AutoScalpPolicy {
+  enabled: boolean;
+  targetProfitPercent: { lowLP: number; default: number; highLP: number };
+  holdConfirmSec: number;
+  partialExit: { min: number; max: number };
+  comboTrailingBump: boolean;
+}
+
+export interface TradingSection {
+  useJito: boolean;
+  slippageAuto: {
+    enabled: boolean;
+    bpsMin: number;
+    bpsMax: number;
+    windowSec: number;
+  };
+  entryPulse: {
+    enabled: boolean;
+    firstSol: number;
+    maxFirstSol: number;
+    confirmSec: number;
+  };
+  // one shared loop for every open position; tickMs is the minimum time between ticks
+  supervisor: { tickMs: number; maxBatch: number };
+  // names from the exit rule registry (trading/exitRules.ts), checked in this order every tick
+  exitRules: string[];
+  trailingStop: TrailingStopPolicy;
+  autoScalp: AutoScalpPolicy;
+}
+
+export interface PatternsPolicy {
+  autoExit: {
+    enabled: boolean;
+    sellTriggerPercent: Range;
+    timeWindowSec: Range;
+    minConsecutiveSamples: number;
+  };
+}
+
+export interface LiquidityBand {
+  lpMinUsd?: number;
+  lpMaxUsd?: number;
+  maxBuySol: number;
+}
+
+export interface ContractGuards {
+  lpLockMinPercent: number;
+  taxMaxPercent: number;
+  forbidFlags: ForbidFlag[];
+  topHolderMaxPercent: number;
+  minHolders: number;
+}
+
+export interface SafetyPolicy {
+  spamWatcher: boolean;
+  spamThresholds: {
+    severityHigh: FreqThresholds & { buySpamKeywords: boolean };
+    antiBot: { maxNameChanges: number; dedupByTextHash: boolean };
+    celebOverride: { enabled: boolean; autoTrade: boolean };
+  };
+  liquidityLimits: {
+    bandsUsd: { low: LiquidityBand; medium: LiquidityBand; high: LiquidityBand };
+    slippageAbortPercent: number;
+  };
+  contractGuards: ContractGuards & { testSellMicrolot: boolean };
+}
+
+export interface BlacklistPolicy {
+  enabled: boolean;
+  file: string;
+}
+
+export interface WalletPolicy {
+  roles: { funding: boolean; trading: boolean; cold: boolean };
+  tradingDailyLimitSol: number;
+  jitoReserveSol: { min: number; max: number };
+  autoSweep: {
+    enabled: boolean;
+    thresholdSol: number;
+    target: "funding" | "cold";
+  };
+}
+
+export interface ProfilesPolicy {
+  twitter: {
+    scanEveryMin: number;
+    filters: {
+      memeabilityMin: number;
+      freq: FreqThresholds;
+      stopwords: string[];
+    };
+    socialScore: {
+      weights: { text: number; author: number; freq: number; celeb: number };
+      escalateAt: number;
+    };
+  };
+  pump: {
+    poolAgeMaxMin: number;
+    lpMinUsd: number;
+    vol5MinUsd: number;
+    txCount5MinMin: number;
+    buySellMin: number;
+  };
+  whales: {
+    winRateMin: number;
+    pelMin: number;
+    holdTimeMedianDaysMin: number;
+    fastSellsMaxPercent: number;
+  };
+  findToken: ContractGuards;
+  listings: {
+    ageDaysMax: number;
+    dedupeBy: string[];
+    needSocial: { freqM5: number; sentimentMin: number };
+  };
+}
+
+export interface RiskPolicy {
+  perTradeRiskPercent: number;
+  targets: { x2: number; x3: number; fib: number[] };
+  stopLoss: {
+    mode: StopLossMode;
+    percentEarly: number;
+    earlyWindowSec: number;
+    atr: { barSec: number; period: number; multiplier: number };
+  };
+  cooldown: { lossStreak: number; pauseMin: number };
+}
+
+export interface TradingPolicy {
+  version: string;
+  schemaVersion: string;
+  execution: ExecutionPolicy;
+  trading: TradingSection;
+  patterns: PatternsPolicy;
+  safety: SafetyPolicy;
+  blacklist: BlacklistPolicy;
+  wallet: WalletPolicy;
+  profiles: ProfilesPolicy;
+  risk: RiskPolicy;
+  adapters?: Record<string, unknown>;
+  notifications?: Record<string, unknown>;
+}
@@ -1 +1,11 @@
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
 export async function ensureTradingWallet(){ /* TODO: load keypair, check balance */ }
+export function tradingWalletAddress(): string {
+  const secret = process.env.WALLET_SECRET; if (!secret) throw new Error("WALLET_SECRET not configured");
+  return Keypair.fromSecretKey(bs58.decode(secret)).publicKey.toString();
+}
+export async function tradingWalletBalanceSol(): Promise<number> {
+  const conn = new Connection(process.env.RPC_URL || "https://api.mainnet-beta.solana.com", "confirmed");
+  return (await conn.getBalance(new PublicKey(tradingWalletAddress()))) / 1e9;
+}